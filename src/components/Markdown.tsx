@@ -0,0 +1,25 @@
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { cn } from '@/lib/utils';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+// GitHub-flavoured Markdown. Raw HTML is not rendered, so untrusted
+// content (uploaded files, model output) cannot inject markup.
+export default function Markdown({ content, className }: MarkdownProps) {
+  return (
+    <div className={cn('prose prose-sm dark:prose-invert max-w-none', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useMemo, useRef, useState, type ReactNode } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+
+interface ChatMarkdownProps {
+  content: string;
+  // Number of sources of the answer; [n] markers within range link to them
+  citationCount?: number;
+  renderCitation?: (index: number) => ReactNode;
+}
+
+interface MdNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MdNode[];
+}
+
+const CITATION_MARKER = /\[(\d{1,3})\]/g;
+const CITATION_HREF_PREFIX = '#citation-';
+
+// Turns [n] in the text into links to the n-th source. Without a matching
+// definition Markdown leaves [n] as plain text; code and links are skipped.
+function splitCitations(text: string, count: number): MdNode[] {
+  const nodes: MdNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    const n = Number(match[1]);
+    if (n < 1 || n > count) continue;
+    if (match.index > last) nodes.push({ type: 'text', value: text.slice(last, match.index) });
+    nodes.push({
+      type: 'link',
+      url: `${CITATION_HREF_PREFIX}${n}`,
+      children: [{ type: 'text', value: String(n) }],
+    });
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) nodes.push({ type: 'text', value: text.slice(last) });
+  return nodes;
+}
+
+function linkCitations(node: MdNode, count: number) {
+  if (!node.children || node.type === 'link' || node.type === 'linkReference') return;
+  node.children = node.children.flatMap(child => {
+    if (child.type === 'text') return splitCitations(child.value ?? '', count);
+    linkCitations(child, count);
+    return [child];
+  });
+}
+
+function CodeBlock({ children, language }: { children: ReactNode; language: string | null }) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="my-3 rounded-lg bg-muted overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-1.5 border-b border-border/50 text-xs text-muted-foreground">
+        <span>{language ?? 'code'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center gap-1 hover:text-foreground transition-colors"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copié' : 'Copier'}
+        </button>
+      </div>
+      <pre ref={preRef} className="!my-0 !rounded-none">{children}</pre>
+    </div>
+  );
+}
+
+// Markdown of assistant answers: GFM tables and lists, highlighted code
+// blocks and source markers. Raw HTML is not rendered and unsafe URLs are
+// dropped, so model output cannot inject markup.
+export default function ChatMarkdown({ content, citationCount = 0, renderCitation }: ChatMarkdownProps) {
+  const remarkPlugins = useMemo(
+    () => [remarkGfm, () => (tree: MdNode) => linkCitations(tree, renderCitation ? citationCount : 0)],
+    [citationCount, renderCitation]
+  );
+
+  const components = useMemo<Components>(() => ({
+    a: ({ node: _node, href, children, ...props }) => {
+      if (renderCitation && href?.startsWith(CITATION_HREF_PREFIX)) {
+        return <>{renderCitation(Number(href.slice(CITATION_HREF_PREFIX.length)) - 1)}</>;
+      }
+      return <a {...props} href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+    },
+    pre: ({ node, children }) => {
+      const code = node?.children[0];
+      const classes = code?.type === 'element' ? code.properties.className : undefined;
+      const language = Array.isArray(classes)
+        ? classes.map(String).find(c => c.startsWith('language-'))?.slice('language-'.length) ?? null
+        : null;
+      return <CodeBlock language={language}>{children}</CodeBlock>;
+    },
+    table: ({ node: _node, ...props }) => (
+      <div className="overflow-x-auto mb-3">
+        <table {...props} />
+      </div>
+    ),
+  }), [renderCitation]);
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      rehypePlugins={[rehypeHighlight]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
@@ -1,13 +1,115 @@
+import { useCallback, useState } from 'react';
 import { cn } from '@/lib/utils';
-import { User, Bot } from 'lucide-react';
+import { User, Bot, FileText, ChevronLeft, ChevronRight, Pencil, RotateCw } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import type { Citation } from '@/lib/chatStream';
+import type { MessageFeedback } from '@/lib/feedback';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import ChatMarkdown from '@/components/chat/ChatMarkdown';
+import FeedbackButtons from '@/components/chat/FeedbackButtons';
 
 interface ChatMessageProps {
   role: 'user' | 'assistant';
   content: string;
+  citations?: Citation[];
+  isStreaming?: boolean;
+  // Actions are unavailable while an answer is generated
+  disabled?: boolean;
+  // Position among the alternatives of this message, when there are several
+  branch?: {
+    index: number;
+    count: number;
+    onPrevious: () => void;
+    onNext: () => void;
+  };
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+  feedback?: MessageFeedback | null;
+  onFeedback?: (feedback: MessageFeedback | null) => Promise<void>;
 }
 
-export default function ChatMessage({ role, content }: ChatMessageProps) {
+function CitationSnippet({ citation }: { citation: Citation }) {
+  return (
+    <HoverCardContent align="start" className="w-80">
+      <p className="text-xs font-medium mb-1 truncate">{citation.document_name || 'Document'}</p>
+      <p className="text-xs text-muted-foreground whitespace-pre-line line-clamp-6">
+        {citation.snippet}
+      </p>
+      {citation.score !== null && (
+        <p className="text-[10px] text-muted-foreground mt-2">
+          Pertinence : {Math.round(citation.score * 100)}%
+        </p>
+      )}
+    </HoverCardContent>
+  );
+}
+
+export default function ChatMessage({
+  role,
+  content,
+  citations = [],
+  isStreaming,
+  disabled,
+  branch,
+  onEdit,
+  onRegenerate,
+  feedback = null,
+  onFeedback,
+}: ChatMessageProps) {
   const isUser = role === 'user';
+  const navigate = useNavigate();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+
+  const startEditing = () => {
+    setDraft(content);
+    setEditing(true);
+  };
+
+  // The edited question is sent as a new branch
+  const submitEdit = () => {
+    const value = draft.trim();
+    if (!value || !onEdit) return;
+    setEditing(false);
+    if (value !== content) onEdit(value);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      submitEdit();
+    } else if (e.key === 'Escape') {
+      setEditing(false);
+    }
+  };
+
+  // The document page previews the file, opening PDFs at the cited page
+  const openCitation = useCallback((citation: Citation) => {
+    if (!citation.document_id) return;
+    navigate(`/documents/${citation.document_id}${citation.page ? `?page=${citation.page}` : ''}`);
+  }, [navigate]);
+
+  // Inline [n] markers of the answer
+  const renderCitation = useCallback((index: number) => {
+    const citation = citations[index];
+    return (
+      <HoverCard openDelay={200}>
+        <HoverCardTrigger asChild>
+          <button
+            type="button"
+            onClick={() => openCitation(citation)}
+            disabled={!citation.document_id}
+            className="inline-flex items-center justify-center min-w-4 h-4 px-1 mx-0.5 align-super rounded bg-accent text-accent-foreground text-[10px] font-medium hover:bg-primary hover:text-primary-foreground transition-colors disabled:cursor-default"
+          >
+            {index + 1}
+          </button>
+        </HoverCardTrigger>
+        {citation.snippet && <CitationSnippet citation={citation} />}
+      </HoverCard>
+    );
+  }, [citations, openCitation]);
 
   return (
     <div className={cn(
@@ -26,23 +128,133 @@ export default function ChatMessage({ role, content }: ChatMessageProps) {
         )}
       </div>
 
-      {/* Message Bubble */}
       <div className={cn(
-        "max-w-[75%] rounded-2xl px-4 py-3",
-        isUser 
-          ? "bg-primary text-primary-foreground rounded-tr-sm" 
-          : "bg-card border border-border rounded-tl-sm"
+        "group flex flex-col gap-1 max-w-[75%]",
+        isUser ? "items-end" : "items-start",
+        editing && "w-full"
       )}>
-        <div className={cn(
-          "prose-chat text-sm leading-relaxed",
-          isUser && "text-primary-foreground"
-        )}>
-          {content.split('\n').map((line, i) => (
-            <p key={i} className={line === '' ? 'h-3' : ''}>
-              {line}
-            </p>
-          ))}
-        </div>
+        {editing ? (
+          <div className="w-full space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              rows={3}
+              className="resize-none"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setEditing(false)}>
+                Annuler
+              </Button>
+              <Button size="sm" onClick={submitEdit} disabled={!draft.trim() || disabled}>
+                Envoyer
+              </Button>
+            </div>
+          </div>
+        ) : (
+          /* Message Bubble */
+          <div className={cn(
+            "rounded-2xl px-4 py-3",
+            isUser 
+              ? "bg-primary text-primary-foreground rounded-tr-sm" 
+              : "bg-card border border-border rounded-tl-sm"
+          )}>
+            <div className={cn(
+              "prose-chat text-sm leading-relaxed",
+              isUser && "text-primary-foreground"
+            )}>
+              {isUser ? (
+                <p className="whitespace-pre-wrap">{content}</p>
+              ) : (
+                <ChatMarkdown content={content} citationCount={citations.length} renderCitation={renderCitation} />
+              )}
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 align-middle bg-current animate-pulse" />
+              )}
+            </div>
+
+            {/* Sources */}
+            {!isUser && citations.length > 0 && (
+              <ol className="mt-3 pt-3 border-t border-border space-y-1">
+                {citations.map((citation, i) => (
+                  <li key={i}>
+                    <HoverCard openDelay={200}>
+                      <HoverCardTrigger asChild>
+                        <button
+                          type="button"
+                          onClick={() => openCitation(citation)}
+                          disabled={!citation.document_id}
+                          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors text-left disabled:cursor-default disabled:hover:text-muted-foreground"
+                        >
+                          <span className="font-medium">[{i + 1}]</span>
+                          <FileText className="w-3 h-3 shrink-0" />
+                          <span className="truncate">{citation.document_name || 'Document'}</span>
+                          {citation.page && <span className="shrink-0">· p. {citation.page}</span>}
+                        </button>
+                      </HoverCardTrigger>
+                      {citation.snippet && <CitationSnippet citation={citation} />}
+                    </HoverCard>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+
+        {/* Branches and actions */}
+        {!editing && !isStreaming && (branch || onEdit || onRegenerate || onFeedback) && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            {branch && (
+              <div className="flex items-center">
+                <button
+                  type="button"
+                  onClick={branch.onPrevious}
+                  disabled={disabled || branch.index === 0}
+                  className="p-1 rounded hover:text-foreground disabled:opacity-40 disabled:hover:text-muted-foreground"
+                  title="Version précédente"
+                >
+                  <ChevronLeft className="w-3.5 h-3.5" />
+                </button>
+                <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+                <button
+                  type="button"
+                  onClick={branch.onNext}
+                  disabled={disabled || branch.index === branch.count - 1}
+                  className="p-1 rounded hover:text-foreground disabled:opacity-40 disabled:hover:text-muted-foreground"
+                  title="Version suivante"
+                >
+                  <ChevronRight className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+            {onFeedback && <FeedbackButtons feedback={feedback} onChange={onFeedback} disabled={disabled} />}
+            <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              {onEdit && (
+                <button
+                  type="button"
+                  onClick={startEditing}
+                  disabled={disabled}
+                  className="p-1 rounded hover:text-foreground disabled:opacity-40"
+                  title="Modifier et renvoyer"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {onRegenerate && (
+                <button
+                  type="button"
+                  onClick={onRegenerate}
+                  disabled={disabled}
+                  className="p-1 rounded hover:text-foreground disabled:opacity-40"
+                  title={isUser ? 'Réessayer' : 'Régénérer la réponse'}
+                >
+                  <RotateCw className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
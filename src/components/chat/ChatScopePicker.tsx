@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { buildFolderTree, type FolderLike, type FolderTreeNode } from '@/lib/folders';
+import { Folder, FileText, Filter, History, Tag, X } from 'lucide-react';
+
+export interface ChatScope {
+  folderIds: string[];
+  documentIds: string[];
+  // Earlier versions of a document, opened from its version history
+  versionIds: string[];
+  // Every document carrying one of these tags
+  tagIds: string[];
+}
+
+interface ScopeItem {
+  id: string;
+  name: string;
+}
+
+interface ChatScopePickerProps {
+  value: ChatScope;
+  onChange: (scope: ChatScope) => void;
+  disabled?: boolean;
+}
+
+export default function ChatScopePicker({ value, onChange, disabled }: ChatScopePickerProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [folders, setFolders] = useState<FolderLike[]>([]);
+  const [documents, setDocuments] = useState<ScopeItem[]>([]);
+  const [versions, setVersions] = useState<ScopeItem[]>([]);
+  const [tags, setTags] = useState<ScopeItem[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchItems = async () => {
+      const [foldersResult, docsResult, tagsResult] = await Promise.all([
+        supabase.from('folders').select('id, name, parent_id').order('name', { ascending: true }),
+        supabase
+          .from('documents')
+          .select('id, name')
+          .eq('user_id', user.id)
+          .order('name', { ascending: true }),
+        supabase.from('tags').select('id, name').order('name', { ascending: true }),
+      ]);
+
+      setFolders(foldersResult.data || []);
+      setDocuments(docsResult.data || []);
+      setTags(tagsResult.data || []);
+    };
+
+    fetchItems();
+  }, [user]);
+
+  // Versions are only added from a document page, so just label the selected ones
+  const versionKey = value.versionIds.join(',');
+  useEffect(() => {
+    if (!versionKey) {
+      setVersions([]);
+      return;
+    }
+
+    const fetchVersions = async () => {
+      const { data } = await supabase
+        .from('document_versions')
+        .select('id, version_number, documents(name)')
+        .in('id', versionKey.split(','));
+
+      setVersions((data || []).map(v => ({
+        id: v.id,
+        name: `${v.documents?.name ?? 'Document'} · v${v.version_number}`,
+      })));
+    };
+
+    fetchVersions();
+  }, [versionKey]);
+
+  const selectedCount = value.folderIds.length + value.documentIds.length + value.versionIds.length + value.tagIds.length;
+
+  // Sub-folders are indented under their parent; selecting a folder covers them
+  const flattenTree = (nodes: FolderTreeNode<FolderLike>[], depth = 0): { folder: FolderLike; depth: number }[] =>
+    nodes.flatMap(node => [{ folder: node.folder, depth }, ...flattenTree(node.children, depth + 1)]);
+  const folderRows = flattenTree(buildFolderTree(folders));
+
+  const toggle = (key: keyof ChatScope, id: string) => {
+    const ids = value[key];
+    onChange({
+      ...value,
+      [key]: ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id],
+    });
+  };
+
+  const selectedLabels = [
+    ...tags.filter(t => value.tagIds.includes(t.id)).map(t => ({ ...t, key: 'tagIds' as const, icon: Tag })),
+    ...folders.filter(f => value.folderIds.includes(f.id)).map(f => ({ ...f, key: 'folderIds' as const, icon: Folder })),
+    ...documents.filter(d => value.documentIds.includes(d.id)).map(d => ({ ...d, key: 'documentIds' as const, icon: FileText })),
+    ...versions.filter(v => value.versionIds.includes(v.id)).map(v => ({ ...v, key: 'versionIds' as const, icon: History })),
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7 text-xs" disabled={disabled}>
+            <Filter className="w-3 h-3 mr-1.5" />
+            {selectedCount === 0 ? 'Tous les documents' : `Portée : ${selectedCount} élément${selectedCount > 1 ? 's' : ''}`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-0">
+          <ScrollArea className="h-72">
+            <div className="p-2 space-y-3">
+              {tags.length > 0 && (
+                <div>
+                  <p className="px-2 py-1 text-xs font-medium text-muted-foreground">Tags</p>
+                  {tags.map(tag => (
+                    <label
+                      key={tag.id}
+                      className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted cursor-pointer text-sm"
+                    >
+                      <Checkbox
+                        checked={value.tagIds.includes(tag.id)}
+                        onCheckedChange={() => toggle('tagIds', tag.id)}
+                      />
+                      <Tag className="w-4 h-4 text-primary shrink-0" />
+                      <span className="truncate">{tag.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {folders.length > 0 && (
+                <div>
+                  <p className="px-2 py-1 text-xs font-medium text-muted-foreground">Dossiers</p>
+                  {folderRows.map(({ folder, depth }) => (
+                    <label
+                      key={folder.id}
+                      className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted cursor-pointer text-sm"
+                      style={{ paddingLeft: 8 + depth * 16 }}
+                    >
+                      <Checkbox
+                        checked={value.folderIds.includes(folder.id)}
+                        onCheckedChange={() => toggle('folderIds', folder.id)}
+                      />
+                      <Folder className="w-4 h-4 text-primary shrink-0" />
+                      <span className="truncate">{folder.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              <div>
+                <p className="px-2 py-1 text-xs font-medium text-muted-foreground">Documents</p>
+                {documents.map(doc => (
+                  <label
+                    key={doc.id}
+                    className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted cursor-pointer text-sm"
+                  >
+                    <Checkbox
+                      checked={value.documentIds.includes(doc.id)}
+                      onCheckedChange={() => toggle('documentIds', doc.id)}
+                    />
+                    <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+                    <span className="truncate">{doc.name}</span>
+                  </label>
+                ))}
+                {documents.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    Aucun document disponible
+                  </p>
+                )}
+              </div>
+            </div>
+          </ScrollArea>
+          {selectedCount > 0 && (
+            <div className="border-t border-border p-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full"
+                onClick={() => onChange({ folderIds: [], documentIds: [], versionIds: [], tagIds: [] })}
+              >
+                Rechercher dans tous les documents
+              </Button>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {selectedLabels.map(item => (
+        <span
+          key={item.id}
+          className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-accent text-accent-foreground max-w-[200px]"
+        >
+          <item.icon className="w-3 h-3 shrink-0" />
+          <span className="truncate">{item.name}</span>
+          {!disabled && (
+            <button type="button" onClick={() => toggle(item.key, item.id)} className="hover:text-destructive">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
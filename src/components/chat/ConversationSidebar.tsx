@@ -1,12 +1,39 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Plus, MessageSquare, Trash2, MoreVertical } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Plus,
+  MessageSquare,
+  Trash2,
+  MoreVertical,
+  Pencil,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  Folder,
+  FolderInput,
+  FolderPlus,
+  ChevronRight,
+  Search,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  groupByDate,
+  MAX_CONVERSATION_TITLE_LENGTH,
+  type ConversationFolder,
+  type ConversationUpdate,
+} from '@/lib/conversations';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
@@ -15,79 +42,378 @@ interface Conversation {
   title: string;
   created_at: string;
   updated_at: string;
+  folder_id: string | null;
+  pinned_at: string | null;
+  archived_at: string | null;
 }
 
 interface ConversationSidebarProps {
   conversations: Conversation[];
+  folders: ConversationFolder[];
   activeId: string | null;
   onSelect: (id: string) => void;
   onNew: () => void;
   onDelete: (id: string) => void;
+  // Reject when the change could not be saved
+  onUpdate: (id: string, update: ConversationUpdate) => Promise<void>;
+  onCreateFolder: (name: string) => Promise<void>;
+  onRenameFolder: (id: string, name: string) => Promise<void>;
+  onDeleteFolder: (id: string) => void;
+}
+
+interface NameInputProps {
+  initialValue: string;
+  placeholder?: string;
+  onSubmit: (name: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Inline field for titles and folder names: Enter or blur saves, Escape cancels
+function NameInput({ initialValue, placeholder, onSubmit, onCancel }: NameInputProps) {
+  const [value, setValue] = useState(initialValue);
+  const [saving, setSaving] = useState(false);
+  const savingRef = useRef(false);
+
+  const submit = async () => {
+    // Enter and the blur that follows would both submit
+    if (savingRef.current) return;
+    const name = value.trim();
+    if (!name || name === initialValue) {
+      onCancel();
+      return;
+    }
+
+    savingRef.current = true;
+    setSaving(true);
+    try {
+      await onSubmit(name);
+    } catch {
+      // The caller reports the error; the field stays open to try again
+    }
+    savingRef.current = false;
+    setSaving(false);
+  };
+
+  return (
+    <Input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') submit();
+        if (e.key === 'Escape') onCancel();
+      }}
+      onBlur={submit}
+      placeholder={placeholder}
+      maxLength={MAX_CONVERSATION_TITLE_LENGTH}
+      disabled={saving}
+      className="h-7 text-sm"
+      autoFocus
+    />
+  );
 }
 
 export default function ConversationSidebar({
   conversations,
+  folders,
   activeId,
   onSelect,
   onNew,
   onDelete,
+  onUpdate,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
 }: ConversationSidebarProps) {
+  const [search, setSearch] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renamingFolderId, setRenamingFolderId] = useState<string | null>(null);
+  const [creatingFolder, setCreatingFolder] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const sortedFolders = useMemo(
+    () => [...folders].sort((a, b) => a.name.localeCompare(b.name, 'fr')),
+    [folders]
+  );
+
+  // A search lists every matching conversation, archived ones included
+  const query = search.trim().toLowerCase();
+  const results = useMemo(
+    () => (query ? groupByDate(conversations.filter(c => c.title.toLowerCase().includes(query))) : null),
+    [conversations, query]
+  );
+
+  const sections = useMemo(() => {
+    const active = conversations.filter(c => !c.archived_at);
+    const unpinned = active.filter(c => !c.pinned_at);
+    return {
+      pinned: active
+        .filter(c => c.pinned_at)
+        .sort((a, b) => (b.pinned_at ?? '').localeCompare(a.pinned_at ?? '')),
+      byFolder: new Map(folders.map(f => [
+        f.id,
+        unpinned.filter(c => c.folder_id === f.id).sort((a, b) => b.updated_at.localeCompare(a.updated_at)),
+      ])),
+      // A folder deleted from another tab falls back to the date groups
+      byDate: groupByDate(unpinned.filter(c => !c.folder_id || !folders.some(f => f.id === c.folder_id))),
+      archived: conversations
+        .filter(c => c.archived_at)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at)),
+    };
+  }, [conversations, folders]);
+
+  const renderConversation = (conv: Conversation) => (
+    <div
+      key={conv.id}
+      className={cn(
+        'group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors',
+        activeId === conv.id
+          ? 'bg-accent text-accent-foreground'
+          : 'hover:bg-muted/50'
+      )}
+      onClick={() => renamingId !== conv.id && onSelect(conv.id)}
+    >
+      {conv.pinned_at ? (
+        <Pin className="w-4 h-4 shrink-0" />
+      ) : (
+        <MessageSquare className="w-4 h-4 shrink-0" />
+      )}
+      {renamingId === conv.id ? (
+        <NameInput
+          initialValue={conv.title}
+          onSubmit={async (title) => {
+            await onUpdate(conv.id, { title, title_locked: true });
+            setRenamingId(null);
+          }}
+          onCancel={() => setRenamingId(null)}
+        />
+      ) : (
+        <span className="flex-1 truncate text-sm" title={conv.title}>{conv.title}</span>
+      )}
+
+      {renamingId !== conv.id && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <MoreVertical className="w-3 h-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+            <DropdownMenuItem onClick={() => setRenamingId(conv.id)}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Renommer
+            </DropdownMenuItem>
+            {!conv.archived_at && (
+              <DropdownMenuItem
+                onClick={() => onUpdate(conv.id, { pinned_at: conv.pinned_at ? null : new Date().toISOString() }).catch(() => {})}
+              >
+                {conv.pinned_at ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                {conv.pinned_at ? 'Désépingler' : 'Épingler'}
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <FolderInput className="w-4 h-4 mr-2" />
+                Déplacer vers
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {sortedFolders.map(folder => (
+                  <DropdownMenuItem
+                    key={folder.id}
+                    disabled={conv.folder_id === folder.id}
+                    onClick={() => onUpdate(conv.id, { folder_id: folder.id }).catch(() => {})}
+                  >
+                    <Folder className="w-4 h-4 mr-2" />
+                    <span className="truncate max-w-48">{folder.name}</span>
+                  </DropdownMenuItem>
+                ))}
+                {sortedFolders.length > 0 && <DropdownMenuSeparator />}
+                <DropdownMenuItem
+                  disabled={!conv.folder_id}
+                  onClick={() => onUpdate(conv.id, { folder_id: null }).catch(() => {})}
+                >
+                  Aucun dossier
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuItem
+              onClick={() => onUpdate(conv.id, conv.archived_at
+                ? { archived_at: null }
+                : { archived_at: new Date().toISOString(), pinned_at: null }
+              ).catch(() => {})}
+            >
+              {conv.archived_at ? <ArchiveRestore className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+              {conv.archived_at ? 'Désarchiver' : 'Archiver'}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="text-destructive"
+              onClick={() => onDelete(conv.id)}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Supprimer
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+
+  const renderGroup = (label: string, items: Conversation[]) => (
+    <div key={label} className="space-y-1">
+      <p className="px-3 pt-3 pb-1 text-xs font-medium text-muted-foreground">{label}</p>
+      {items.map(renderConversation)}
+    </div>
+  );
+
   return (
     <div className="w-64 border-r border-border bg-card/50 flex flex-col h-full">
-      <div className="p-4 border-b border-border">
-        <Button onClick={onNew} className="w-full gap-2" size="sm">
-          <Plus className="w-4 h-4" />
-          Nouvelle conversation
-        </Button>
+      <div className="p-4 border-b border-border space-y-3">
+        <div className="flex gap-2">
+          <Button onClick={onNew} className="flex-1 gap-2" size="sm">
+            <Plus className="w-4 h-4" />
+            Nouvelle conversation
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="px-2"
+            onClick={() => setCreatingFolder(true)}
+            title="Nouveau dossier"
+          >
+            <FolderPlus className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Rechercher"
+            className="h-8 pl-8 text-sm"
+          />
+        </div>
       </div>
-      
+
       <ScrollArea className="flex-1">
-        <div className="p-2 space-y-1">
-          {conversations.length === 0 ? (
-            <p className="text-sm text-muted-foreground text-center py-4">
-              Aucune conversation
-            </p>
+        <div className="p-2">
+          {results ? (
+            results.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                Aucun résultat
+              </p>
+            ) : (
+              results.map(group => renderGroup(group.label, group.items))
+            )
           ) : (
-            conversations.map((conv) => (
-              <div
-                key={conv.id}
-                className={cn(
-                  'group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors',
-                  activeId === conv.id
-                    ? 'bg-accent text-accent-foreground'
-                    : 'hover:bg-muted/50'
-                )}
-                onClick={() => onSelect(conv.id)}
-              >
-                <MessageSquare className="w-4 h-4 shrink-0" />
-                <span className="flex-1 truncate text-sm">{conv.title}</span>
-                
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                      onClick={(e) => e.stopPropagation()}
-                    >
-                      <MoreVertical className="w-3 h-3" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem
-                      className="text-destructive"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDelete(conv.id);
-                      }}
-                    >
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      Supprimer
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-            ))
+            <>
+              {creatingFolder && (
+                <div className="flex items-center gap-2 px-3 py-2">
+                  <Folder className="w-4 h-4 shrink-0 text-primary" />
+                  <NameInput
+                    initialValue=""
+                    placeholder="Nom du dossier"
+                    onSubmit={async (name) => {
+                      await onCreateFolder(name);
+                      setCreatingFolder(false);
+                    }}
+                    onCancel={() => setCreatingFolder(false)}
+                  />
+                </div>
+              )}
+
+              {sections.pinned.length > 0 && renderGroup('Épinglées', sections.pinned)}
+
+              {sortedFolders.map(folder => {
+                const items = sections.byFolder.get(folder.id) ?? [];
+                return (
+                  <Collapsible
+                    key={folder.id}
+                    defaultOpen={items.some(c => c.id === activeId)}
+                    className="group/folder"
+                  >
+                    <div className="group flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-muted/50">
+                      {renamingFolderId === folder.id ? (
+                        <>
+                          <Folder className="w-4 h-4 shrink-0 text-primary" />
+                          <NameInput
+                            initialValue={folder.name}
+                            onSubmit={async (name) => {
+                              await onRenameFolder(folder.id, name);
+                              setRenamingFolderId(null);
+                            }}
+                            onCancel={() => setRenamingFolderId(null)}
+                          />
+                        </>
+                      ) : (
+                        <CollapsibleTrigger className="flex flex-1 items-center gap-2 min-w-0 text-sm text-left">
+                          <ChevronRight className="w-3 h-3 shrink-0 transition-transform group-data-[state=open]/folder:rotate-90" />
+                          <Folder className="w-4 h-4 shrink-0 text-primary" />
+                          <span className="flex-1 truncate" title={folder.name}>{folder.name}</span>
+                          <span className="text-xs text-muted-foreground">{items.length}</span>
+                        </CollapsibleTrigger>
+                      )}
+                      {renamingFolderId !== folder.id && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+                            >
+                              <MoreVertical className="w-3 h-3" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => setRenamingFolderId(folder.id)}>
+                              <Pencil className="w-4 h-4 mr-2" />
+                              Renommer
+                            </DropdownMenuItem>
+                            <DropdownMenuItem className="text-destructive" onClick={() => onDeleteFolder(folder.id)}>
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Supprimer le dossier
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </div>
+                    <CollapsibleContent className="pl-4 space-y-1">
+                      {items.length === 0 ? (
+                        <p className="px-3 py-1 text-xs text-muted-foreground">Dossier vide</p>
+                      ) : (
+                        items.map(renderConversation)
+                      )}
+                    </CollapsibleContent>
+                  </Collapsible>
+                );
+              })}
+
+              {sections.byDate.map(group => renderGroup(group.label, group.items))}
+
+              {conversations.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  Aucune conversation
+                </p>
+              )}
+
+              {sections.archived.length > 0 && (
+                <Collapsible open={showArchived} onOpenChange={setShowArchived} className="mt-3">
+                  <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-xs font-medium text-muted-foreground hover:text-foreground">
+                    <ChevronRight className={cn('w-3 h-3 transition-transform', showArchived && 'rotate-90')} />
+                    <Archive className="w-3.5 h-3.5" />
+                    Archives ({sections.archived.length})
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="space-y-1">
+                    {sections.archived.map(renderConversation)}
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+            </>
           )}
         </div>
       </ScrollArea>
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { FEEDBACK_REASONS, MAX_CORRECTION_LENGTH, type MessageFeedback } from '@/lib/feedback';
+import { cn } from '@/lib/utils';
+import { Loader2, ThumbsDown, ThumbsUp } from 'lucide-react';
+
+interface FeedbackButtonsProps {
+  feedback: MessageFeedback | null;
+  // null removes the feedback; rejects when it could not be saved
+  onChange: (feedback: MessageFeedback | null) => Promise<void>;
+  disabled?: boolean;
+}
+
+// Thumbs up/down on an answer. A thumbs down asks for a reason and the
+// expected answer, both optional.
+export default function FeedbackButtons({ feedback, onChange, disabled }: FeedbackButtonsProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [correction, setCorrection] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const save = async (value: MessageFeedback | null) => {
+    setSaving(true);
+    try {
+      await onChange(value);
+      setOpen(false);
+    } catch {
+      // The caller reports the error and the form stays open
+    }
+    setSaving(false);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (value) {
+      setReason(feedback?.rating === 'down' ? feedback.reason ?? '' : '');
+      setCorrection(feedback?.rating === 'down' ? feedback.correction ?? '' : '');
+    }
+    setOpen(value);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save({ rating: 'down', reason: reason || null, correction: correction.trim() || null });
+  };
+
+  return (
+    <div className="flex items-center">
+      <button
+        type="button"
+        onClick={() => save(feedback?.rating === 'up' ? null : { rating: 'up', reason: null, correction: null })}
+        disabled={disabled || saving}
+        className={cn(
+          "p-1 rounded hover:text-foreground disabled:opacity-40",
+          feedback?.rating === 'up' && "text-primary hover:text-primary"
+        )}
+        title="Réponse utile"
+      >
+        <ThumbsUp className={cn("w-3.5 h-3.5", feedback?.rating === 'up' && "fill-current")} />
+      </button>
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            disabled={disabled || saving}
+            className={cn(
+              "p-1 rounded hover:text-foreground disabled:opacity-40",
+              feedback?.rating === 'down' && "text-destructive hover:text-destructive"
+            )}
+            title="Signaler un problème"
+          >
+            <ThumbsDown className={cn("w-3.5 h-3.5", feedback?.rating === 'down' && "fill-current")} />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <p className="text-sm font-medium">Qu'est-ce qui ne va pas ?</p>
+              <p className="text-xs text-muted-foreground">Votre retour aide l'équipe à compléter les documents.</p>
+            </div>
+            <RadioGroup value={reason} onValueChange={setReason} className="gap-2">
+              {Object.entries(FEEDBACK_REASONS).map(([value, label]) => (
+                <div key={value} className="flex items-center gap-2">
+                  <RadioGroupItem value={value} id={`feedback-reason-${value}`} />
+                  <Label htmlFor={`feedback-reason-${value}`} className="font-normal">{label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <div>
+              <Label htmlFor="feedback-correction">Réponse attendue</Label>
+              <Textarea
+                id="feedback-correction"
+                value={correction}
+                onChange={(e) => setCorrection(e.target.value)}
+                placeholder="Facultatif"
+                maxLength={MAX_CORRECTION_LENGTH}
+                rows={3}
+                className="mt-2"
+              />
+            </div>
+            <div className="flex justify-between gap-2">
+              {feedback?.rating === 'down' ? (
+                <Button type="button" variant="ghost" size="sm" onClick={() => save(null)} disabled={saving}>
+                  Retirer
+                </Button>
+              ) : <span />}
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Envoyer
+              </Button>
+            </div>
+          </form>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -1,15 +1,17 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Square } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface InputBarProps {
   onSend: (message: string) => void;
+  onStop?: () => void;
   disabled?: boolean;
+  isStreaming?: boolean;
   placeholder?: string;
 }
 
-export default function InputBar({ onSend, disabled, placeholder }: InputBarProps) {
+export default function InputBar({ onSend, onStop, disabled, isStreaming, placeholder }: InputBarProps) {
   const [message, setMessage] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -51,19 +53,32 @@ export default function InputBar({ onSend, disabled, placeholder }: InputBarProp
             "min-h-[56px] max-h-[150px]"
           )}
         />
-        <Button
-          type="submit"
-          size="icon"
-          disabled={!message.trim() || disabled}
-          className="absolute right-2 bottom-2 h-9 w-9 rounded-xl"
-          variant={message.trim() ? "premium" : "secondary"}
-        >
-          {disabled ? (
-            <Loader2 className="w-4 h-4 animate-spin" />
-          ) : (
-            <Send className="w-4 h-4" />
-          )}
-        </Button>
+        {isStreaming && onStop ? (
+          <Button
+            type="button"
+            size="icon"
+            onClick={onStop}
+            className="absolute right-2 bottom-2 h-9 w-9 rounded-xl"
+            variant="secondary"
+            title="Arrêter la génération"
+          >
+            <Square className="w-4 h-4 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!message.trim() || disabled}
+            className="absolute right-2 bottom-2 h-9 w-9 rounded-xl"
+            variant={message.trim() ? "premium" : "secondary"}
+          >
+            {disabled ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4" />
+            )}
+          </Button>
+        )}
       </div>
       <p className="text-xs text-muted-foreground text-center mt-2">
         Appuyez sur Entrée pour envoyer, Shift+Entrée pour un saut de ligne
@@ -1,20 +1,29 @@
+import { useRef, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { 
   FileText, 
   FileSpreadsheet, 
   FileJson,
   File,
   Trash2,
-  CheckCircle,
-  Clock,
-  AlertCircle,
   Loader2,
-  FolderInput
+  FolderInput,
+  RotateCw,
+  FileUp,
+  Pencil,
+  SlidersHorizontal
 } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import DocumentStatusBadge from '@/components/documents/DocumentStatusBadge';
+import DocumentTagEditor from '@/components/documents/DocumentTagEditor';
+import { ACCEPTED_EXTENSIONS } from '@/lib/uploads';
+import type { Tag } from '@/lib/tags';
+import { cn, formatFileSize } from '@/lib/utils';
 
 interface Document {
   id: string;
@@ -24,13 +33,35 @@ interface Document {
   status: string;
   created_at: string;
   folder_id?: string | null;
+  ingestion_progress?: number | null;
+  page_count?: number | null;
+  chunk_count?: number | null;
+  error_message?: string | null;
+  ingestion_attempts?: number;
+  next_retry_at?: string | null;
+  current_version?: number;
+  description?: string | null;
+  tag_ids?: string[];
 }
 
 interface DocumentCardProps {
   document: Document;
+  // Search result context: matched text (terms wrapped in <mark>) and folder path
+  excerpt?: string | null;
+  location?: string;
+  tags?: Tag[];
+  onClick?: () => void;
+  onTagClick?: (tagId: string) => void;
+  // Shows the tag editor; called after each change
+  onTagsChange?: () => void;
   onDelete?: (id: string) => void;
   onMove?: (id: string) => void;
+  onRetry?: (id: string) => void;
+  onUploadVersion?: (id: string, file: File) => void;
+  onRename?: (id: string, name: string) => Promise<void>;
+  onEditDetails?: (id: string) => void;
   isDeleting?: boolean;
+  isRetrying?: boolean;
 }
 
 const typeIcons: Record<string, typeof FileText> = {
@@ -42,26 +73,70 @@ const typeIcons: Record<string, typeof FileText> = {
   json: FileJson,
 };
 
-const statusConfig: Record<string, { icon: typeof Clock; label: string; color: string; bg: string; animate?: boolean }> = {
-  pending: { icon: Clock, label: 'En attente', color: 'text-warning', bg: 'bg-warning/10' },
-  processing: { icon: Loader2, label: 'Ingestion...', color: 'text-primary', bg: 'bg-primary/10', animate: true },
-  ingested: { icon: CheckCircle, label: 'Ingéré', color: 'text-success', bg: 'bg-success/10' },
-  error: { icon: AlertCircle, label: 'Erreur', color: 'text-destructive', bg: 'bg-destructive/10' },
-};
-
-function formatFileSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+// Renders search highlights as text, never as HTML
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<mark>.*?<\/mark>)/g).map((part, i) =>
+        part.startsWith('<mark>')
+          ? <mark key={i} className="bg-warning/30 text-foreground rounded-sm">{part.slice(6, -7)}</mark>
+          : part
+      )}
+    </>
+  );
 }
 
-export default function DocumentCard({ document, onDelete, onMove, isDeleting }: DocumentCardProps) {
+export default function DocumentCard({
+  document,
+  excerpt,
+  location,
+  tags,
+  onClick,
+  onTagClick,
+  onTagsChange,
+  onDelete,
+  onMove,
+  onRetry,
+  onUploadVersion,
+  onRename,
+  onEditDetails,
+  isDeleting,
+  isRetrying,
+}: DocumentCardProps) {
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState(false);
+  const renamingRef = useRef(false);
   const Icon = typeIcons[document.file_type] || File;
-  const status = statusConfig[document.status as keyof typeof statusConfig] || statusConfig.pending;
-  const StatusIcon = status.icon;
+  const isFailed = document.status === 'error';
+  const isBusy = document.status === 'pending' || document.status === 'processing';
+
+  const submitRename = async () => {
+    // Enter and the blur that follows would both submit
+    if (editingName === null || !onRename || renamingRef.current) return;
+    const name = editingName.trim();
+    if (!name || name === document.name) {
+      setEditingName(null);
+      return;
+    }
+
+    renamingRef.current = true;
+    setRenaming(true);
+    try {
+      await onRename(document.id, name);
+      setEditingName(null);
+    } catch {
+      // The caller reports the error; the field stays open to try again
+    }
+    renamingRef.current = false;
+    setRenaming(false);
+  };
 
   return (
-    <Card className="border-border/50 hover:shadow-medium transition-all duration-200 group">
+    <Card
+      className={cn("border-border/50 hover:shadow-medium transition-all duration-200 group", onClick && "cursor-pointer")}
+      onClick={onClick}
+    >
       <CardContent className="p-4">
         <div className="flex items-start gap-4">
           {/* File Icon */}
@@ -71,13 +146,35 @@ export default function DocumentCard({ document, onDelete, onMove, isDeleting }:
 
           {/* File Info */}
           <div className="flex-1 min-w-0">
-            <h3 className="font-medium truncate" title={document.name}>
-              {document.name}
-            </h3>
+            {editingName !== null ? (
+              <Input
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submitRename();
+                  if (e.key === 'Escape') setEditingName(null);
+                }}
+                onBlur={submitRename}
+                disabled={renaming}
+                className="h-7 font-medium"
+                autoFocus
+              />
+            ) : (
+              <h3 className="font-medium truncate" title={document.name}>
+                {document.name}
+              </h3>
+            )}
             <div className="flex items-center gap-3 mt-1 text-sm text-muted-foreground">
               <span className="uppercase">{document.file_type}</span>
               <span>•</span>
               <span>{formatFileSize(document.file_size)}</span>
+              {!!document.current_version && document.current_version > 1 && (
+                <>
+                  <span>•</span>
+                  <span>v{document.current_version}</span>
+                </>
+              )}
               <span>•</span>
               <span>
                 {formatDistanceToNow(new Date(document.created_at), { 
@@ -85,21 +182,153 @@ export default function DocumentCard({ document, onDelete, onMove, isDeleting }:
                   locale: fr 
                 })}
               </span>
+              {document.status === 'ingested' && document.page_count != null && (
+                <>
+                  <span>•</span>
+                  <span>{document.page_count} page{document.page_count !== 1 ? 's' : ''}</span>
+                </>
+              )}
+              {document.status === 'ingested' && document.chunk_count != null && (
+                <>
+                  <span>•</span>
+                  <span>{document.chunk_count} extrait{document.chunk_count !== 1 ? 's' : ''}</span>
+                </>
+              )}
             </div>
+            {location && (
+              <p className="text-xs text-muted-foreground mt-1 truncate">{location}</p>
+            )}
+            {excerpt ? (
+              <p className="text-sm text-muted-foreground mt-2 line-clamp-2">
+                <Highlighted text={excerpt} />
+              </p>
+            ) : document.description && (
+              <p className="text-sm text-muted-foreground mt-1 line-clamp-1" title={document.description}>
+                {document.description}
+              </p>
+            )}
+            {!!tags?.length && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {tags.map(tag => (
+                  <Badge
+                    key={tag.id}
+                    variant="secondary"
+                    className={cn("font-normal", onTagClick && "cursor-pointer hover:bg-primary/15")}
+                    onClick={onTagClick ? (e) => { e.stopPropagation(); onTagClick(tag.id); } : undefined}
+                  >
+                    {tag.name}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {document.status === 'processing' && document.ingestion_progress != null && (
+              <div className="flex items-center gap-2 mt-2">
+                <Progress value={document.ingestion_progress} className="h-1.5 flex-1" />
+                <span className="text-xs text-muted-foreground">{document.ingestion_progress}%</span>
+              </div>
+            )}
+            {document.status === 'error' && document.error_message && (
+              <p className="text-xs text-destructive mt-1 line-clamp-2" title={document.error_message}>
+                {document.error_message}
+              </p>
+            )}
+            {isFailed && !!document.ingestion_attempts && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {document.ingestion_attempts} tentative{document.ingestion_attempts > 1 ? 's' : ''}
+                {document.next_retry_at
+                  ? ` • nouvel essai ${formatDistanceToNow(new Date(document.next_retry_at), { addSuffix: true, locale: fr })}`
+                  : ' • plus de nouvel essai automatique'}
+              </p>
+            )}
           </div>
 
           {/* Status Badge */}
-          <div className={cn(
-            "flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium",
-            status.bg, status.color
-          )}>
-            <StatusIcon className={cn("w-3.5 h-3.5", status.animate && "animate-spin")} />
-            <span>{status.label}</span>
-          </div>
+          <DocumentStatusBadge status={document.status} />
+
+          {/* Failed documents keep the retry action in view */}
+          {onRetry && isFailed && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={(e) => { e.stopPropagation(); onRetry(document.id); }}
+              disabled={isRetrying}
+            >
+              <RotateCw className={cn("w-4 h-4 mr-1.5", isRetrying && "animate-spin")} />
+              Relancer l'ingestion
+            </Button>
+          )}
 
           {/* Action Buttons */}
-          {(onMove || onDelete) && (
-            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {(onRename || onEditDetails || onTagsChange || onMove || onDelete || onUploadVersion || (onRetry && !isFailed && !isBusy)) && (
+            <div
+              className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {onRetry && !isFailed && !isBusy && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onRetry(document.id)}
+                  disabled={isRetrying}
+                  className="text-muted-foreground hover:text-primary"
+                  title="Réingérer"
+                >
+                  <RotateCw className={cn("w-4 h-4", isRetrying && "animate-spin")} />
+                </Button>
+              )}
+              {onUploadVersion && (
+                <>
+                  <input
+                    ref={versionInputRef}
+                    type="file"
+                    accept={ACCEPTED_EXTENSIONS}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) onUploadVersion(document.id, file);
+                      e.target.value = '';
+                    }}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => versionInputRef.current?.click()}
+                    className="text-muted-foreground hover:text-primary"
+                    title="Uploader une nouvelle version"
+                  >
+                    <FileUp className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+              {onRename && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setEditingName(document.name)}
+                  className="text-muted-foreground hover:text-primary"
+                  title="Renommer"
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+              )}
+              {onEditDetails && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onEditDetails(document.id)}
+                  className="text-muted-foreground hover:text-primary"
+                  title="Modifier les informations"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </Button>
+              )}
+              {onTagsChange && (
+                <DocumentTagEditor
+                  documentId={document.id}
+                  tagIds={document.tag_ids ?? []}
+                  onChange={onTagsChange}
+                />
+              )}
               {onMove && (
                 <Button
                   variant="ghost"
@@ -118,6 +347,7 @@ export default function DocumentCard({ document, onDelete, onMove, isDeleting }:
                   onClick={() => onDelete(document.id)}
                   disabled={isDeleting}
                   className="text-muted-foreground hover:text-destructive"
+                  title="Placer dans la corbeille"
                 >
                   {isDeleting ? (
                     <Loader2 className="w-4 h-4 animate-spin" />
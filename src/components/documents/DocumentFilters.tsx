@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from 'react';
+import { Search, SlidersHorizontal, X, ChevronDown } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { documentStatusConfig } from '@/lib/documentStatus';
+import { buildFolderTree, type FolderLike, type FolderTreeNode } from '@/lib/folders';
+import {
+  DOCUMENT_FILE_TYPES,
+  DOCUMENT_SORT_LABELS,
+  hasActiveFilters,
+  type DocumentSearchFilters,
+  type DocumentSort,
+} from '@/lib/documentSearch';
+import type { Tag } from '@/lib/tags';
+
+export interface Uploader {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+interface DocumentFiltersProps {
+  filters: DocumentSearchFilters;
+  onChange: (filters: DocumentSearchFilters) => void;
+  folders: FolderLike[];
+  uploaders: Uploader[];
+  tags: Tag[];
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const ALL_FOLDERS = 'all';
+
+interface MultiSelectProps {
+  label: string;
+  options: { value: string; label: string }[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+function MultiSelect({ label, options, selected, onChange }: MultiSelectProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9">
+          {label}
+          {selected.length > 0 && (
+            <span className="ml-1.5 rounded-full bg-primary text-primary-foreground text-xs px-1.5">
+              {selected.length}
+            </span>
+          )}
+          <ChevronDown className="w-3.5 h-3.5 ml-1.5 text-muted-foreground" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+        {options.map(option => (
+          <DropdownMenuCheckboxItem
+            key={option.value}
+            checked={selected.includes(option.value)}
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={(checked) =>
+              onChange(checked
+                ? [...selected, option.value]
+                : selected.filter(v => v !== option.value))
+            }
+          >
+            {option.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default function DocumentFilters({ filters, onChange, folders, uploaders, tags }: DocumentFiltersProps) {
+  const [query, setQuery] = useState(filters.query);
+  const latest = useRef({ filters, onChange });
+  latest.current = { filters, onChange };
+
+  // Follow back/forward navigation
+  useEffect(() => {
+    setQuery(filters.query);
+  }, [filters.query]);
+
+  useEffect(() => {
+    if (query === filters.query) return;
+    const timeout = setTimeout(() => {
+      latest.current.onChange({ ...latest.current.filters, query });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query, filters.query]);
+
+  const flattenTree = (nodes: FolderTreeNode<FolderLike>[], depth = 0): { folder: FolderLike; depth: number }[] =>
+    nodes.flatMap(node => [{ folder: node.folder, depth }, ...flattenTree(node.children, depth + 1)]);
+
+  const reset = () => {
+    setQuery('');
+    onChange({ ...filters, query: '', statuses: [], fileTypes: [], uploaderIds: [], folderId: null, tagIds: [], from: null, to: null });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Rechercher dans les noms et le contenu des documents"
+          className="pl-9"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-muted-foreground" />
+        <MultiSelect
+          label="Statut"
+          options={Object.entries(documentStatusConfig).map(([value, config]) => ({ value, label: config.label }))}
+          selected={filters.statuses}
+          onChange={(statuses) => onChange({ ...filters, statuses })}
+        />
+        <MultiSelect
+          label="Type"
+          options={DOCUMENT_FILE_TYPES.map(type => ({ value: type, label: type.toUpperCase() }))}
+          selected={filters.fileTypes}
+          onChange={(fileTypes) => onChange({ ...filters, fileTypes })}
+        />
+        <MultiSelect
+          label="Ajouté par"
+          options={uploaders.map(u => ({ value: u.id, label: u.full_name || u.email || 'Inconnu' }))}
+          selected={filters.uploaderIds}
+          onChange={(uploaderIds) => onChange({ ...filters, uploaderIds })}
+        />
+        {tags.length > 0 && (
+          <MultiSelect
+            label="Tags"
+            options={tags.map(tag => ({ value: tag.id, label: tag.name }))}
+            selected={filters.tagIds}
+            onChange={(tagIds) => onChange({ ...filters, tagIds })}
+          />
+        )}
+        <Select
+          value={filters.folderId ?? ALL_FOLDERS}
+          onValueChange={(value) => onChange({ ...filters, folderId: value === ALL_FOLDERS ? null : value })}
+        >
+          <SelectTrigger className="h-9 w-auto min-w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FOLDERS}>Tous les dossiers</SelectItem>
+            {flattenTree(buildFolderTree(folders)).map(({ folder, depth }) => (
+              <SelectItem key={folder.id} value={folder.id}>
+                <span style={{ paddingLeft: depth * 12 }}>{folder.name}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Input
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to ?? undefined}
+            onChange={(e) => onChange({ ...filters, from: e.target.value || null })}
+            className="h-9 w-36"
+            aria-label="Ajouté après le"
+          />
+          <span>→</span>
+          <Input
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from ?? undefined}
+            onChange={(e) => onChange({ ...filters, to: e.target.value || null })}
+            className="h-9 w-36"
+            aria-label="Ajouté avant le"
+          />
+        </div>
+        <Select
+          value={filters.sort}
+          onValueChange={(sort) => onChange({ ...filters, sort: sort as DocumentSort })}
+        >
+          <SelectTrigger className="h-9 w-auto min-w-36 ml-auto">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(DOCUMENT_SORT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {hasActiveFilters(filters) && (
+          <Button variant="ghost" size="sm" className="h-9" onClick={reset}>
+            <X className="w-4 h-4 mr-1" />
+            Réinitialiser
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTags } from '@/hooks/useDocumentQueries';
+import { DOCUMENT_LANGUAGES, type DocumentMetadata } from '@/lib/documents';
+import { Loader2, X } from 'lucide-react';
+
+const NO_LANGUAGE = 'none';
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+interface DocumentMetadataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: {
+    name: string;
+    description?: string | null;
+    tags?: string[] | null;
+    language?: string | null;
+    effective_date?: string | null;
+  } | null;
+  onConfirm: (metadata: DocumentMetadata) => Promise<void>;
+}
+
+export default function DocumentMetadataDialog({
+  open,
+  onOpenChange,
+  document,
+  onConfirm,
+}: DocumentMetadataDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [language, setLanguage] = useState(NO_LANGUAGE);
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { data: existingTags = [] } = useTags(open);
+
+  // Fields are filled on opening only, so that realtime updates of the
+  // document (ingestion progress...) do not wipe pending edits
+  const documentRef = useRef(document);
+  documentRef.current = document;
+
+  useEffect(() => {
+    const current = documentRef.current;
+    if (open && current) {
+      setName(current.name);
+      setDescription(current.description ?? '');
+      setTags(current.tags ?? []);
+      setTagInput('');
+      setLanguage(current.language ?? NO_LANGUAGE);
+      setEffectiveDate(current.effective_date ?? '');
+    }
+  }, [open]);
+
+  const addTag = (value: string) => {
+    const tag = value.trim();
+    if (tag && !tags.includes(tag)) {
+      setTags([...tags, tag]);
+    }
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(tagInput);
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      setTags(tags.slice(0, -1));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      // A tag still being typed is kept
+      const pending = tagInput.trim();
+      await onConfirm({
+        name: name.trim(),
+        description: description.trim() || null,
+        tags: pending && !tags.includes(pending) ? [...tags, pending] : tags,
+        language: language === NO_LANGUAGE ? null : language,
+        effective_date: effectiveDate || null,
+      });
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error and the dialog stays open
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Modifier le document</DialogTitle>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div>
+              <Label htmlFor="document-name">Nom</Label>
+              <Input
+                id="document-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-2"
+                autoFocus
+              />
+            </div>
+            <div>
+              <Label htmlFor="document-description">Description</Label>
+              <Textarea
+                id="document-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Résumé du contenu, public visé..."
+                maxLength={MAX_DESCRIPTION_LENGTH}
+                rows={3}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="document-tags">Tags</Label>
+              <div className="mt-2 flex flex-wrap items-center gap-1.5 rounded-md border border-input px-3 py-2">
+                {tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+                    {tag}
+                    <button
+                      type="button"
+                      onClick={() => setTags(tags.filter(t => t !== tag))}
+                      className="rounded-full hover:bg-muted-foreground/20"
+                      title={`Retirer "${tag}"`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+                <input
+                  id="document-tags"
+                  list="document-tag-suggestions"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={handleTagKeyDown}
+                  onBlur={() => tagInput && addTag(tagInput)}
+                  placeholder={tags.length === 0 ? 'Entrée pour ajouter un tag' : ''}
+                  className="flex-1 min-w-24 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+                />
+                <datalist id="document-tag-suggestions">
+                  {existingTags.filter(t => !tags.includes(t.name)).map(t => (
+                    <option key={t.id} value={t.name} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Langue</Label>
+                <Select value={language} onValueChange={setLanguage}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LANGUAGE}>Non précisée</SelectItem>
+                    {Object.entries(DOCUMENT_LANGUAGES).map(([code, label]) => (
+                      <SelectItem key={code} value={code}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="document-effective-date">Date d'effet</Label>
+                <Input
+                  id="document-effective-date"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annuler
+            </Button>
+            <Button type="submit" disabled={!name.trim() || saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
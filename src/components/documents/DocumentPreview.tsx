@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import Markdown from '@/components/Markdown';
+import JsonTree from '@/components/documents/JsonTree';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, FileQuestion } from 'lucide-react';
+
+interface DocumentPreviewProps {
+  fileType: string;
+  url: string;
+  fileName: string;
+  // Opens PDFs at this page
+  page?: number | null;
+}
+
+const TEXT_TYPES = ['md', 'txt', 'csv', 'json'];
+// Larger CSV files are truncated in the preview
+const MAX_CSV_ROWS = 500;
+
+// French exports often use ';' as separator: pick whichever the header uses most
+function detectDelimiter(text: string): string {
+  const end = text.indexOf('\n');
+  const header = end === -1 ? text : text.slice(0, end);
+  return header.split(';').length > header.split(',').length ? ';' : ',';
+}
+
+// RFC 4180: quoted fields may contain separators, newlines and "" escapes
+function parseCsv(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function CsvPreview({ text }: { text: string }) {
+  const [header = [], ...rows] = parseCsv(text);
+
+  return (
+    <div className="space-y-2">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {header.map((cell, i) => <TableHead key={i}>{cell}</TableHead>)}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.slice(0, MAX_CSV_ROWS).map((row, i) => (
+            <TableRow key={i}>
+              {row.map((cell, j) => <TableCell key={j}>{cell}</TableCell>)}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {rows.length > MAX_CSV_ROWS && (
+        <p className="text-sm text-muted-foreground text-center">
+          {MAX_CSV_ROWS} premières lignes sur {rows.length}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function JsonPreview({ text }: { text: string }) {
+  try {
+    return (
+      <div className="font-mono text-sm">
+        <JsonTree value={JSON.parse(text)} />
+      </div>
+    );
+  } catch {
+    return <pre className="text-sm whitespace-pre-wrap break-words">{text}</pre>;
+  }
+}
+
+export default function DocumentPreview({ fileType, url, fileName, page }: DocumentPreviewProps) {
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!TEXT_TYPES.includes(fileType)) return;
+
+    const controller = new AbortController();
+    setText(null);
+    setError(false);
+
+    fetch(url, { signal: controller.signal })
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      })
+      .then(setText)
+      .catch(err => {
+        if ((err as Error).name !== 'AbortError') setError(true);
+      });
+
+    return () => controller.abort();
+  }, [url, fileType]);
+
+  if (fileType === 'pdf') {
+    return (
+      <iframe
+        src={page ? `${url}#page=${page}` : url}
+        title={fileName}
+        className="w-full h-[75vh] rounded-lg border border-border"
+      />
+    );
+  }
+
+  if (!TEXT_TYPES.includes(fileType) || error) {
+    return (
+      <div className="py-16 text-center">
+        <FileQuestion className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground mb-4">
+          {error ? 'Impossible de charger l\'aperçu.' : 'Aucun aperçu disponible pour ce type de fichier.'}
+        </p>
+        <Button variant="outline" asChild>
+          <a href={url} download={fileName}>
+            <Download className="w-4 h-4 mr-2" />
+            Télécharger
+          </a>
+        </Button>
+      </div>
+    );
+  }
+
+  if (text === null) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-3/4" />
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-5/6" />
+      </div>
+    );
+  }
+
+  if (fileType === 'md') return <Markdown content={text} />;
+  if (fileType === 'csv') return <CsvPreview text={text} />;
+  if (fileType === 'json') return <JsonPreview text={text} />;
+  return <pre className="text-sm whitespace-pre-wrap break-words font-mono">{text}</pre>;
+}
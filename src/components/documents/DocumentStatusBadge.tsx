@@ -0,0 +1,17 @@
+import { documentStatusConfig } from '@/lib/documentStatus';
+import { cn } from '@/lib/utils';
+
+export default function DocumentStatusBadge({ status }: { status: string }) {
+  const config = documentStatusConfig[status] || documentStatusConfig.pending;
+  const StatusIcon = config.icon;
+
+  return (
+    <div className={cn(
+      "flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium",
+      config.bg, config.color
+    )}>
+      <StatusIcon className={cn("w-3.5 h-3.5", config.animate && "animate-spin")} />
+      <span>{config.label}</span>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useToast } from '@/hooks/use-toast';
+import { useTags } from '@/hooks/useDocumentQueries';
+import { addDocumentTag, createTag, removeDocumentTag } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+import { Check, Plus, Tag as TagIcon } from 'lucide-react';
+
+interface DocumentTagEditorProps {
+  documentId: string;
+  tagIds: string[];
+  // Called after each change so the lists refetch
+  onChange: () => void;
+}
+
+// Toggles the tags of a document, creating the typed tag when it is new
+export default function DocumentTagEditor({ documentId, tagIds, onChange }: DocumentTagEditorProps) {
+  const { data: tags = [] } = useTags();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de modifier les tags',
+        variant: 'destructive',
+      });
+    }
+    setBusy(false);
+  };
+
+  const toggle = (tagId: string) => run(() =>
+    tagIds.includes(tagId) ? removeDocumentTag(documentId, tagId) : addDocumentTag(documentId, tagId)
+  );
+
+  const create = (name: string) => run(async () => {
+    const tag = await createTag(name);
+    await addDocumentTag(documentId, tag.id);
+    setSearch('');
+  });
+
+  const name = search.trim();
+  const exists = tags.some(t => t.name.toLowerCase() === name.toLowerCase());
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="text-muted-foreground hover:text-primary"
+          title="Modifier les tags"
+        >
+          <TagIcon className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-0" onClick={(e) => e.stopPropagation()}>
+        <Command>
+          <CommandInput
+            value={search}
+            onValueChange={setSearch}
+            placeholder="Rechercher ou créer un tag"
+          />
+          <CommandList>
+            <CommandEmpty>{name ? 'Aucun tag' : 'Aucun tag pour le moment'}</CommandEmpty>
+            <CommandGroup>
+              {tags.map(tag => (
+                <CommandItem
+                  key={tag.id}
+                  value={tag.name}
+                  onSelect={() => toggle(tag.id)}
+                  disabled={busy}
+                >
+                  <Check className={cn('w-4 h-4 mr-2', tagIds.includes(tag.id) ? 'opacity-100' : 'opacity-0')} />
+                  <span className="truncate">{tag.name}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {name && !exists && (
+              <CommandGroup forceMount>
+                <CommandItem value={`create:${name}`} onSelect={() => create(name)} disabled={busy} forceMount>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Créer « {name} »
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,85 @@
+import { Copy, FileText } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { useUploadQueue, type UploadItem } from '@/hooks/useUploadQueue';
+
+function describeDuplicate(item: UploadItem): string {
+  if (!item.duplicate) return '';
+  if (!item.duplicate.id) return `Identique à « ${item.duplicate.name} » dans ce même envoi`;
+  return `Identique à « ${item.duplicate.name} »`;
+}
+
+// Asks what to do with uploads whose content is already stored
+export default function DuplicateUploadsDialog() {
+  const { items, resolveDuplicate } = useUploadQueue();
+  const { canDeleteDocuments } = usePermissions();
+
+  const duplicates = items.filter(item => item.status === 'duplicate');
+
+  const resolveAll = (resolution: 'keep' | 'skip') => {
+    duplicates.forEach(item => resolveDuplicate(item.id, resolution));
+  };
+
+  return (
+    <AlertDialog open={duplicates.length > 0}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Copy className="w-5 h-5" />
+            {duplicates.length > 1 ? `${duplicates.length} doublons détectés` : 'Doublon détecté'}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Un contenu identique est déjà présent. Les doublons faussent les réponses du chatbot en
+            surreprésentant un même document.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-80 overflow-y-auto -mx-2 px-2 space-y-3">
+          {duplicates.map(item => (
+            <div key={item.id} className="rounded-lg border border-border/50 p-3 space-y-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{item.file.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{describeDuplicate(item)}</p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {canDeleteDocuments && item.duplicate?.id && (
+                  <Button size="sm" variant="outline" onClick={() => resolveDuplicate(item.id, 'replace')}>
+                    Remplacer l'existant
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={() => resolveDuplicate(item.id, 'keep')}>
+                  Garder les deux
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => resolveDuplicate(item.id, 'skip')}>
+                  Ignorer
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {duplicates.length > 1 && (
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={() => resolveAll('keep')}>
+              Tout garder
+            </Button>
+            <Button onClick={() => resolveAll('skip')}>
+              Tout ignorer
+            </Button>
+          </AlertDialogFooter>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
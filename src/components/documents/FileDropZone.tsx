@@ -0,0 +1,72 @@
+import { useRef, useState, type DragEvent, type ReactNode } from 'react';
+import { Upload } from 'lucide-react';
+import { readDroppedFiles, type UploadSource } from '@/lib/uploads';
+import { cn } from '@/lib/utils';
+
+interface FileDropZoneProps {
+  onDrop: (sources: UploadSource[]) => void;
+  disabled?: boolean;
+  label: string;
+  className?: string;
+  children: ReactNode;
+}
+
+const hasFiles = (e: DragEvent) => e.dataTransfer.types.includes('Files');
+
+// Accepts files and directories dragged from the desktop and shows an
+// overlay while hovering
+export default function FileDropZone({ onDrop, disabled, label, className, children }: FileDropZoneProps) {
+  const [dragging, setDragging] = useState(false);
+  // dragenter/dragleave also fire for every child element crossed
+  const depth = useRef(0);
+
+  const handleDragEnter = (e: DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    e.preventDefault();
+    depth.current += 1;
+    setDragging(true);
+  };
+
+  const handleDragOver = (e: DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    depth.current = Math.max(0, depth.current - 1);
+    if (depth.current === 0) setDragging(false);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    depth.current = 0;
+    setDragging(false);
+    // Already handled by a nested target, such as a folder card
+    if (disabled || !hasFiles(e) || e.defaultPrevented) return;
+    e.preventDefault();
+    readDroppedFiles(e.dataTransfer).then(sources => {
+      if (sources.length > 0) onDrop(sources);
+    });
+  };
+
+  return (
+    <div
+      className={cn('relative', className)}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {dragging && (
+        <div className="pointer-events-none absolute inset-0 z-40 rounded-xl border-2 border-dashed border-primary bg-primary/5 backdrop-blur-[1px] flex items-center justify-center">
+          <div className="flex flex-col items-center gap-2 text-primary">
+            <Upload className="w-8 h-8" />
+            <p className="font-medium">{label}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
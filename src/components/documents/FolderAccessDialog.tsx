@@ -175,7 +175,8 @@ export default function FolderAccessDialog({
         <DialogHeader>
           <DialogTitle>Paramètres d'accès</DialogTitle>
           <DialogDescription>
-            Définissez qui peut voir ce dossier et son contenu.
+            Définissez qui peut voir ce dossier et son contenu. Les sous-dossiers
+            ne sont jamais plus ouverts que leur dossier parent.
           </DialogDescription>
         </DialogHeader>
 
@@ -0,0 +1,50 @@
+import { Fragment } from 'react';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { getFolderPath, type FolderLike } from '@/lib/folders';
+
+interface FolderBreadcrumbProps {
+  folders: FolderLike[];
+  currentFolderId: string | null;
+  onNavigate: (folderId: string | null) => void;
+}
+
+export default function FolderBreadcrumb({ folders, currentFolderId, onNavigate }: FolderBreadcrumbProps) {
+  const path = getFolderPath(folders, currentFolderId);
+
+  return (
+    <Breadcrumb>
+      <BreadcrumbList>
+        <BreadcrumbItem>
+          {path.length === 0 ? (
+            <BreadcrumbPage>Documents</BreadcrumbPage>
+          ) : (
+            <BreadcrumbLink asChild>
+              <button type="button" onClick={() => onNavigate(null)}>Documents</button>
+            </BreadcrumbLink>
+          )}
+        </BreadcrumbItem>
+        {path.map((folder, i) => (
+          <Fragment key={folder.id}>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              {i === path.length - 1 ? (
+                <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+              ) : (
+                <BreadcrumbLink asChild>
+                  <button type="button" onClick={() => onNavigate(folder.id)}>{folder.name}</button>
+                </BreadcrumbLink>
+              )}
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
@@ -1,6 +1,9 @@
-import { Folder, MoreVertical, Trash2, Edit2, Lock, Users, UserCheck, Settings2 } from 'lucide-react';
+import { useRef, useState, type DragEvent } from 'react';
+import { Folder, MoreVertical, Trash2, Edit2, Lock, Users, UserCheck, Settings2, RotateCw, FolderInput } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { readDroppedFiles, type UploadSource } from '@/lib/uploads';
+import { cn } from '@/lib/utils';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,11 +20,16 @@ interface FolderCardProps {
     name: string;
     created_at: string;
   };
-  documentCount: number;
+  // Undefined while the counts load, or when they could not be loaded
+  documentCount?: number;
   onClick: () => void;
   onDelete?: () => void;
   onRename?: () => void;
+  onMove?: () => void;
   onManageAccess?: () => void;
+  onReingest?: () => void;
+  // Files dropped from the desktop are uploaded into this folder
+  onDropFiles?: (sources: UploadSource[]) => void;
   accessLevel?: AccessLevel;
   isDeleting?: boolean;
 }
@@ -38,17 +46,55 @@ export default function FolderCard({
   onClick,
   onDelete,
   onRename,
+  onMove,
   onManageAccess,
+  onReingest,
+  onDropFiles,
   accessLevel = 'team',
   isDeleting,
 }: FolderCardProps) {
+  const [dragging, setDragging] = useState(false);
+  const dragDepth = useRef(0);
   const AccessIcon = accessIcons[accessLevel];
-  const hasActions = onDelete || onRename || onManageAccess;
+  const hasActions = onDelete || onRename || onMove || onManageAccess || onReingest;
+
+  const acceptsDrag = (e: DragEvent) => !!onDropFiles && e.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (e: DragEvent) => {
+    if (!acceptsDrag(e)) return;
+    e.preventDefault();
+    dragDepth.current += 1;
+    setDragging(true);
+  };
+
+  const handleDragLeave = (e: DragEvent) => {
+    if (!acceptsDrag(e)) return;
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setDragging(false);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    if (!acceptsDrag(e)) return;
+    // Marks the drop as handled for the page-level drop zone
+    e.preventDefault();
+    dragDepth.current = 0;
+    setDragging(false);
+    readDroppedFiles(e.dataTransfer).then(sources => {
+      if (sources.length > 0) onDropFiles?.(sources);
+    });
+  };
 
   return (
     <Card
-      className="border-border/50 hover:border-primary/30 hover:shadow-md transition-all cursor-pointer group"
+      className={cn(
+        'border-border/50 hover:border-primary/30 hover:shadow-md transition-all cursor-pointer group',
+        dragging && 'border-primary ring-2 ring-primary/30 bg-primary/5'
+      )}
       onClick={onClick}
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => acceptsDrag(e) && e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
     >
       <CardContent className="p-4 flex items-center gap-4">
         <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center relative">
@@ -60,7 +106,9 @@ export default function FolderCard({
         <div className="flex-1 min-w-0">
           <h3 className="font-medium truncate">{folder.name}</h3>
           <p className="text-sm text-muted-foreground">
-            {documentCount} document{documentCount !== 1 ? 's' : ''}
+            {documentCount === undefined
+              ? '— documents'
+              : `${documentCount} document${documentCount !== 1 ? 's' : ''}`}
           </p>
         </div>
         {hasActions && (
@@ -81,12 +129,27 @@ export default function FolderCard({
                   Renommer
                 </DropdownMenuItem>
               )}
+              {onMove && (
+                <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onMove(); }}>
+                  <FolderInput className="w-4 h-4 mr-2" />
+                  Déplacer
+                </DropdownMenuItem>
+              )}
               {onManageAccess && (
                 <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onManageAccess(); }}>
                   <Settings2 className="w-4 h-4 mr-2" />
                   Gérer l'accès
                 </DropdownMenuItem>
               )}
+              {onReingest && (
+                <DropdownMenuItem
+                  onClick={(e) => { e.stopPropagation(); onReingest(); }}
+                  disabled={documentCount === 0}
+                >
+                  <RotateCw className="w-4 h-4 mr-2" />
+                  Réingérer le dossier
+                </DropdownMenuItem>
+              )}
               {onDelete && (
                 <>
                   <DropdownMenuSeparator />
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface JsonTreeProps {
+  value: unknown;
+  name?: string;
+  depth?: number;
+}
+
+// Levels deeper than this start collapsed
+const EXPANDED_DEPTH = 2;
+
+function Primitive({ value }: { value: unknown }) {
+  if (value === null) return <span className="text-muted-foreground">null</span>;
+  if (typeof value === 'string') return <span className="text-success break-all">"{value}"</span>;
+  if (typeof value === 'number') return <span className="text-primary">{value}</span>;
+  return <span className="text-warning">{String(value)}</span>;
+}
+
+export default function JsonTree({ value, name, depth = 0 }: JsonTreeProps) {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH);
+  const isObject = value !== null && typeof value === 'object';
+
+  const label = name !== undefined && (
+    <span className="text-foreground">{name}: </span>
+  );
+
+  if (!isObject) {
+    return (
+      <div className="pl-5">
+        {label}
+        <Primitive value={value} />
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray
+    ? (value as unknown[]).map((item, i) => [String(i), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setExpanded(e => !e)}
+        className="flex items-center gap-1 hover:bg-muted rounded px-0.5"
+      >
+        <ChevronRight className={cn('w-4 h-4 text-muted-foreground transition-transform', expanded && 'rotate-90')} />
+        {label}
+        <span className="text-muted-foreground">
+          {expanded ? open : `${open} ${entries.length} élément${entries.length !== 1 ? 's' : ''} ${close}`}
+        </span>
+      </button>
+      {expanded && (
+        <>
+          <div className="pl-4 border-l border-border ml-2">
+            {entries.map(([key, child]) => (
+              <JsonTree key={key} name={key} value={child} depth={depth + 1} />
+            ))}
+          </div>
+          <span className="pl-5 text-muted-foreground">{close}</span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { Folder, FolderOpen } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronRight, Folder, FolderOpen, Search } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -6,18 +7,19 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-
-interface Folder {
-  id: string;
-  name: string;
-}
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { buildFolderTree, getFolderPath, type FolderLike, type FolderTreeNode } from '@/lib/folders';
 
 interface MoveToFolderDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  folders: Folder[];
+  folders: FolderLike[];
   currentFolderId: string | null;
   onMove: (folderId: string | null) => void;
+  title?: string;
+  // Folders that cannot be picked, e.g. a folder being moved and its sub-folders
+  excludedIds?: Set<string>;
 }
 
 export default function MoveToFolderDialog({
@@ -26,39 +28,121 @@ export default function MoveToFolderDialog({
   folders,
   currentFolderId,
   onMove,
+  title = 'Déplacer vers un dossier',
+  excludedIds,
 }: MoveToFolderDialogProps) {
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const selectable = useMemo(
+    () => folders.filter(f => !excludedIds?.has(f.id)),
+    [folders, excludedIds]
+  );
+  const tree = useMemo(() => buildFolderTree(selectable), [selectable]);
+
+  // Open the tree down to the current folder
+  useEffect(() => {
+    if (open) {
+      setSearch('');
+      setExpanded(new Set(getFolderPath(folders, currentFolderId).map(f => f.id)));
+    }
+  }, [open, folders, currentFolderId]);
+
+  const select = (folderId: string | null) => {
+    onMove(folderId);
+    onOpenChange(false);
+  };
+
+  const toggle = (folderId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) next.delete(folderId);
+      else next.add(folderId);
+      return next;
+    });
+  };
+
+  const renderNode = (node: FolderTreeNode<FolderLike>, depth: number) => {
+    const isOpen = expanded.has(node.folder.id);
+    return (
+      <div key={node.folder.id}>
+        <div className="flex items-center" style={{ paddingLeft: depth * 16 }}>
+          <button
+            type="button"
+            onClick={() => toggle(node.folder.id)}
+            className={cn('p-1 rounded hover:bg-muted', node.children.length === 0 && 'invisible')}
+          >
+            <ChevronRight className={cn('w-4 h-4 transition-transform', isOpen && 'rotate-90')} />
+          </button>
+          <Button
+            variant={currentFolderId === node.folder.id ? 'secondary' : 'ghost'}
+            className="flex-1 justify-start"
+            onClick={() => select(node.folder.id)}
+          >
+            <Folder className="w-4 h-4 mr-2" />
+            <span className="truncate">{node.folder.name}</span>
+          </Button>
+        </div>
+        {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const query = search.trim().toLowerCase();
+  const matches = query
+    ? selectable.filter(f => f.name.toLowerCase().includes(query))
+    : [];
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Déplacer vers un dossier</DialogTitle>
+          <DialogTitle>{title}</DialogTitle>
         </DialogHeader>
-        <div className="py-4 space-y-2 max-h-64 overflow-y-auto">
-          <Button
-            variant={currentFolderId === null ? 'secondary' : 'ghost'}
-            className="w-full justify-start"
-            onClick={() => {
-              onMove(null);
-              onOpenChange(false);
-            }}
-          >
-            <FolderOpen className="w-4 h-4 mr-2" />
-            Racine (aucun dossier)
-          </Button>
-          {folders.map((folder) => (
-            <Button
-              key={folder.id}
-              variant={currentFolderId === folder.id ? 'secondary' : 'ghost'}
-              className="w-full justify-start"
-              onClick={() => {
-                onMove(folder.id);
-                onOpenChange(false);
-              }}
-            >
-              <Folder className="w-4 h-4 mr-2" />
-              {folder.name}
-            </Button>
-          ))}
+        <div className="relative">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Rechercher un dossier"
+            className="pl-9"
+          />
+        </div>
+        <div className="py-2 space-y-1 max-h-80 overflow-y-auto">
+          {query ? (
+            matches.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Aucun dossier trouvé</p>
+            ) : (
+              matches.map(folder => (
+                <Button
+                  key={folder.id}
+                  variant={currentFolderId === folder.id ? 'secondary' : 'ghost'}
+                  className="w-full justify-start h-auto py-2"
+                  onClick={() => select(folder.id)}
+                >
+                  <Folder className="w-4 h-4 mr-2 shrink-0" />
+                  <span className="flex flex-col items-start min-w-0">
+                    <span className="truncate">{folder.name}</span>
+                    <span className="text-xs text-muted-foreground truncate">
+                      {getFolderPath(folders, folder.parent_id).map(f => f.name).join(' / ') || 'Racine'}
+                    </span>
+                  </span>
+                </Button>
+              ))
+            )
+          ) : (
+            <>
+              <Button
+                variant={currentFolderId === null ? 'secondary' : 'ghost'}
+                className="w-full justify-start"
+                onClick={() => select(null)}
+              >
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Racine (aucun dossier)
+              </Button>
+              {tree.map(node => renderNode(node, 0))}
+            </>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -1,108 +1,32 @@
-import { useRef, useState } from 'react';
+import { useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { Upload, Loader2 } from 'lucide-react';
-import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
-
-const ACCEPTED_TYPES = [
-  'application/pdf',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'text/plain',
-  'text/csv',
-  'application/json',
-  'text/markdown',
-];
-
-const ACCEPTED_EXTENSIONS = '.pdf,.docx,.txt,.csv,.json,.md';
+import { FolderUp, Upload } from 'lucide-react';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { ACCEPTED_EXTENSIONS, fromFileList } from '@/lib/uploads';
 
 interface UploadButtonProps {
-  onUploadComplete: () => void;
+  folderId?: string | null;
+  // Also offer to pick a whole directory, recreated as folders
+  allowDirectories?: boolean;
 }
 
-export default function UploadButton({ onUploadComplete }: UploadButtonProps) {
-  const [uploading, setUploading] = useState(false);
+// Adds the selected files to the upload queue, into the given folder
+export default function UploadButton({ folderId = null, allowDirectories }: UploadButtonProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { toast } = useToast();
-  const { user } = useAuth();
-
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || files.length === 0 || !user) return;
-
-    setUploading(true);
-
-    for (const file of Array.from(files)) {
-      const fileExt = file.name.split('.').pop()?.toLowerCase();
-      const isValidType = ACCEPTED_TYPES.includes(file.type) || 
-        ['pdf', 'docx', 'txt', 'csv', 'json', 'md'].includes(fileExt || '');
-
-      if (!isValidType) {
-        toast({
-          title: 'Type de fichier non supporté',
-          description: `Le fichier "${file.name}" n'est pas supporté.`,
-          variant: 'destructive',
-        });
-        continue;
-      }
+  const directoryInputRef = useRef<HTMLInputElement>(null);
+  const { enqueue } = useUploadQueue();
 
-      try {
-        // Upload to storage
-        const filePath = `${user.id}/${Date.now()}_${file.name}`;
-        const { error: uploadError } = await supabase.storage
-          .from('documents')
-          .upload(filePath, file);
+  // Not part of React's input attributes
+  useEffect(() => {
+    directoryInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [allowDirectories]);
 
-        if (uploadError) throw uploadError;
-
-        // Create document record
-        const { error: dbError } = await supabase.from('documents').insert({
-          user_id: user.id,
-          name: file.name,
-          file_type: fileExt || 'unknown',
-          file_size: file.size,
-          file_path: filePath,
-          status: 'pending',
-        });
-
-        if (dbError) throw dbError;
-
-        toast({
-          title: 'Document uploadé',
-          description: `"${file.name}" a été ajouté avec succès.`,
-        });
-
-        // Trigger n8n ingestion workflow via Edge Function
-        try {
-          const { data: { session } } = await supabase.auth.getSession();
-          
-          const formData = new FormData();
-          formData.append('data', file);
-          formData.append('file_path', filePath);
-          formData.append('file_name', file.name);
-
-          await supabase.functions.invoke('n8n-upload', {
-            body: formData,
-          });
-        } catch (webhookError) {
-          // Log but don't fail the upload
-          console.log('Ingestion webhook triggered');
-        }
-
-      } catch (error: any) {
-        toast({
-          title: "Erreur d'upload",
-          description: error.message || 'Une erreur est survenue',
-          variant: 'destructive',
-        });
-      }
-    }
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
 
-    setUploading(false);
-    onUploadComplete();
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    enqueue(fromFileList(files), folderId);
+    e.target.value = '';
   };
 
   return (
@@ -115,18 +39,31 @@ export default function UploadButton({ onUploadComplete }: UploadButtonProps) {
         onChange={handleFileSelect}
         className="hidden"
       />
+      {allowDirectories && (
+        <>
+          <input
+            ref={directoryInputRef}
+            type="file"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <Button
+            onClick={() => directoryInputRef.current?.click()}
+            variant="outline"
+            size="lg"
+          >
+            <FolderUp className="w-4 h-4" />
+            Uploader un dossier
+          </Button>
+        </>
+      )}
       <Button
         onClick={() => fileInputRef.current?.click()}
-        disabled={uploading}
         variant="premium"
         size="lg"
       >
-        {uploading ? (
-          <Loader2 className="w-4 h-4 animate-spin" />
-        ) : (
-          <Upload className="w-4 h-4" />
-        )}
-        {uploading ? 'Upload en cours...' : 'Uploader des fichiers'}
+        <Upload className="w-4 h-4" />
+        Uploader des fichiers
       </Button>
     </>
   );
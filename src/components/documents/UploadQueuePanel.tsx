@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import {
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  FileText,
+  Loader2,
+  Pause,
+  Play,
+  RotateCw,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useUploadQueue, type UploadItem } from '@/hooks/useUploadQueue';
+import { isAcceptedFile } from '@/lib/uploads';
+import { cn, formatFileSize } from '@/lib/utils';
+
+function statusLabel(item: UploadItem): string {
+  switch (item.status) {
+    case 'checking':
+      return 'Recherche de doublons...';
+    case 'duplicate':
+      return 'Doublon détecté';
+    case 'queued':
+      return 'En attente';
+    case 'uploading':
+      return `${item.progress}%`;
+    case 'paused':
+      return `En pause · ${item.progress}%`;
+    case 'finalizing':
+      return 'Enregistrement...';
+    case 'done':
+      return 'Terminé';
+    case 'error':
+      return item.error || 'Erreur';
+  }
+}
+
+function UploadRow({ item }: { item: UploadItem }) {
+  const { pause, resume, cancel, retry } = useUploadQueue();
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2.5">
+      <div className="w-8 h-8 rounded-md bg-muted flex items-center justify-center shrink-0">
+        {item.status === 'done' ? (
+          <CheckCircle2 className="w-4 h-4 text-success" />
+        ) : item.status === 'error' ? (
+          <XCircle className="w-4 h-4 text-destructive" />
+        ) : item.status === 'finalizing' ? (
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+        ) : (
+          <FileText className="w-4 h-4 text-muted-foreground" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="text-sm font-medium truncate" title={item.file.name}>{item.file.name}</p>
+        {(item.status === 'uploading' || item.status === 'paused') && (
+          <Progress value={item.progress} className="h-1" />
+        )}
+        <p className={cn('text-xs truncate', item.status === 'error' ? 'text-destructive' : 'text-muted-foreground')}>
+          {formatFileSize(item.file.size)}{item.versionOf && ' · nouvelle version'} · {statusLabel(item)}
+        </p>
+      </div>
+      <div className="flex items-center shrink-0">
+        {item.status === 'uploading' && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => pause(item.id)} title="Mettre en pause">
+            <Pause className="w-3.5 h-3.5" />
+          </Button>
+        )}
+        {item.status === 'paused' && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => resume(item.id)} title="Reprendre">
+            <Play className="w-3.5 h-3.5" />
+          </Button>
+        )}
+        {item.status === 'error' && isAcceptedFile(item.file) && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => retry(item.id)} title="Réessayer">
+            <RotateCw className="w-3.5 h-3.5" />
+          </Button>
+        )}
+        {item.status !== 'done' && item.status !== 'finalizing' && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => cancel(item.id)} title="Annuler">
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Floating panel listing every upload of the session with its progress
+export default function UploadQueuePanel() {
+  const { items, clearFinished } = useUploadQueue();
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (items.length === 0) return null;
+
+  const done = items.filter(i => i.status === 'done').length;
+  const failed = items.filter(i => i.status === 'error').length;
+  const pending = items.length - done - failed;
+  const overall = Math.round(
+    items.reduce((sum, i) => sum + (i.status === 'done' ? 100 : i.progress), 0) / items.length
+  );
+
+  return (
+    <Card className="fixed bottom-4 right-4 z-50 w-96 max-w-[calc(100vw-2rem)] shadow-large border-border/50 overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-border/50">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium">
+            {pending > 0
+              ? `Upload de ${pending} fichier${pending !== 1 ? 's' : ''}`
+              : 'Uploads terminés'}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {done}/{items.length} terminé{done !== 1 ? 's' : ''}
+            {failed > 0 && <span className="text-destructive"> · {failed} en erreur</span>}
+          </p>
+        </div>
+        {done > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearFinished}>
+            Effacer les terminés
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setCollapsed(c => !c)}
+          title={collapsed ? 'Afficher' : 'Réduire'}
+        >
+          {collapsed ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </Button>
+      </div>
+      {pending > 0 && <Progress value={overall} className="h-0.5 rounded-none" />}
+      {!collapsed && (
+        <div className="max-h-72 overflow-y-auto divide-y divide-border/50">
+          {items.map(item => (
+            <UploadRow key={item.id} item={item} />
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useLayoutEffect, useRef, useState, type ReactNode } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Loader2 } from 'lucide-react';
+
+interface VirtualDocumentListProps<T extends { id: string }> {
+  items: T[];
+  renderItem: (item: T) => ReactNode;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+const ESTIMATED_ITEM_HEIGHT = 92;
+const ITEM_GAP = 12;
+// Fetch the next page when this close to the end of the loaded items
+const LOAD_MORE_THRESHOLD = 10;
+
+// Only the cards in view are mounted. The list scrolls with the page: the
+// virtualizer observes the app layout's scrolling <main> element.
+export default function VirtualDocumentList<T extends { id: string }>({
+  items,
+  renderItem,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+}: VirtualDocumentListProps<T>) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
+
+  const getScrollElement = () => listRef.current?.closest('main') ?? null;
+
+  // Offset of the list inside the scrolling container, which moves when the
+  // content above it (folders, filters) changes size
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    const scrollElement = list?.closest('main');
+    if (!list || !scrollElement) return;
+
+    const update = () => {
+      const margin = list.getBoundingClientRect().top - scrollElement.getBoundingClientRect().top + scrollElement.scrollTop;
+      setScrollMargin(prev => (Math.abs(margin - prev) > 1 ? margin : prev));
+    };
+    update();
+
+    const observer = new ResizeObserver(update);
+    if (scrollElement.firstElementChild) observer.observe(scrollElement.firstElementChild);
+    return () => observer.disconnect();
+  }, []);
+
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement,
+    estimateSize: () => ESTIMATED_ITEM_HEIGHT,
+    gap: ITEM_GAP,
+    overscan: 5,
+    scrollMargin,
+    getItemKey: (index) => items[index].id,
+  });
+
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastIndex = virtualItems[virtualItems.length - 1]?.index ?? -1;
+
+  useEffect(() => {
+    if (hasMore && !loadingMore && lastIndex >= items.length - LOAD_MORE_THRESHOLD) {
+      onLoadMore?.();
+    }
+  }, [lastIndex, items.length, hasMore, loadingMore, onLoadMore]);
+
+  return (
+    <div ref={listRef}>
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualItems.map(item => (
+          <div
+            key={item.key}
+            data-index={item.index}
+            ref={virtualizer.measureElement}
+            className="absolute top-0 left-0 w-full"
+            style={{ transform: `translateY(${item.start - scrollMargin}px)` }}
+          >
+            {renderItem(items[item.index])}
+          </div>
+        ))}
+      </div>
+      {loadingMore && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+}
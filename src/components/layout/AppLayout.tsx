@@ -2,6 +2,8 @@ import { ReactNode, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import Sidebar from './Sidebar';
+import UploadQueuePanel from '@/components/documents/UploadQueuePanel';
+import DuplicateUploadsDialog from '@/components/documents/DuplicateUploadsDialog';
 import { Loader2 } from 'lucide-react';
 
 interface AppLayoutProps {
@@ -36,6 +38,8 @@ export default function AppLayout({ children }: AppLayoutProps) {
       <main className="flex-1 overflow-auto">
         {children}
       </main>
+      <UploadQueuePanel />
+      <DuplicateUploadsDialog />
     </div>
   );
 }
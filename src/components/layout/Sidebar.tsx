@@ -14,7 +14,9 @@ import {
   Users,
   Shield,
   Sun,
-  Moon
+  Moon,
+  Trash2,
+  MessageSquareWarning
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useState } from 'react';
@@ -29,7 +31,7 @@ const roleLabels: Record<string, string> = {
 export default function Sidebar() {
   const location = useLocation();
   const { signOut, user } = useAuth();
-  const { role, canManageUsers, canAccessSettings } = usePermissions();
+  const { role, canManageUsers, canAccessSettings, canDeleteDocuments, canReviewFeedback } = usePermissions();
   const { resolvedTheme, setTheme } = useTheme();
   const [collapsed, setCollapsed] = useState(false);
 
@@ -41,6 +43,8 @@ export default function Sidebar() {
     { icon: LayoutDashboard, label: 'Dashboard', href: '/dashboard', show: true },
     { icon: FileText, label: 'Documents', href: '/documents', show: true },
     { icon: MessageSquare, label: 'Chatbot', href: '/chat', show: true },
+    { icon: MessageSquareWarning, label: 'Retours', href: '/feedback', show: canReviewFeedback },
+    { icon: Trash2, label: 'Corbeille', href: '/trash', show: canDeleteDocuments },
     { icon: Users, label: 'Équipe', href: '/team', show: canManageUsers },
     { icon: Settings, label: 'Paramètres', href: '/settings', show: canAccessSettings },
   ];
@@ -18,10 +18,12 @@ interface PermissionsContextType {
   canUploadDocuments: boolean;
   canDeleteDocuments: boolean;
   canRenameDocuments: boolean;
+  canReingestDocuments: boolean;
   // Chat
   canUseChat: boolean;
   canExportConversations: boolean;
   canViewAllConversations: boolean;
+  canReviewFeedback: boolean;
   // Settings
   canAccessSettings: boolean;
   canManageBilling: boolean;
@@ -93,10 +95,12 @@ export function PermissionsProvider({ children }: { children: ReactNode }) {
     canUploadDocuments: hasRole('editor'),
     canDeleteDocuments: hasRole('admin'),
     canRenameDocuments: hasRole('editor'),
+    canReingestDocuments: hasRole('editor'),
     // Chat - everyone can use
     canUseChat: !!role,
     canExportConversations: hasRole('editor'),
     canViewAllConversations: hasRole('admin'),
+    canReviewFeedback: hasRole('admin'),
     // Settings
     canAccessSettings: hasRole('admin'),
     canManageBilling: role === 'super_admin',
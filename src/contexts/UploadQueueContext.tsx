@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import type * as tus from 'tus-js-client';
+import { useAuth } from './AuthContext';
+import { usePermissions } from './PermissionsContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { UploadQueueContext, type DuplicateResolution, type UploadItem } from '@/hooks/useUploadQueue';
+import { trashDocument } from '@/lib/documents';
+import {
+  addDocumentVersion,
+  computeFileHash,
+  createDocument,
+  findDuplicates,
+  isAcceptedFile,
+  resolveFolderTree,
+  startResumableUpload,
+  type UploadSource,
+} from '@/lib/uploads';
+
+const MAX_CONCURRENT_UPLOADS = 3;
+
+const isActive = (item: UploadItem) => item.status !== 'done' && item.status !== 'error';
+
+export function UploadQueueProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { canCreateFolders } = usePermissions();
+  const { toast } = useToast();
+  const [items, setItems] = useState<UploadItem[]>([]);
+  // tus uploads and their storage paths, kept across pause/resume
+  const uploads = useRef(new Map<string, tus.Upload>());
+  const filePaths = useRef(new Map<string, string>());
+  // Items whose file already reached storage, so a retry only recreates the row
+  const uploaded = useRef(new Set<string>());
+  const wasActive = useRef(false);
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const finalize = useCallback(async (item: UploadItem) => {
+    const filePath = filePaths.current.get(item.id);
+    if (!user || !filePath) return;
+
+    uploaded.current.add(item.id);
+    updateItem(item.id, { status: 'finalizing', progress: 100, error: null });
+
+    try {
+      if (item.replaceDocumentId) {
+        await trashDocument(item.replaceDocumentId);
+        updateItem(item.id, { replaceDocumentId: null });
+      }
+      if (item.versionOf) {
+        await addDocumentVersion(item.file, filePath, item.versionOf, item.contentHash);
+      } else {
+        await createDocument(item.file, filePath, user.id, item.folderId, item.contentHash);
+      }
+      uploads.current.delete(item.id);
+      uploaded.current.delete(item.id);
+      updateItem(item.id, { status: 'done' });
+    } catch (error) {
+      updateItem(item.id, { status: 'error', error: (error as Error).message || 'Une erreur est survenue' });
+    }
+  }, [user, updateItem]);
+
+  const startUpload = useCallback(async (item: UploadItem) => {
+    if (!user) return;
+    updateItem(item.id, { status: 'uploading', error: null });
+
+    // Paused or failed uploads continue from the last uploaded chunk
+    const existing = uploads.current.get(item.id);
+    if (existing) {
+      existing.start();
+      return;
+    }
+
+    try {
+      const { upload, filePath } = await startResumableUpload(
+        item.file,
+        `${user.id}/${Date.now()}_${item.file.name}`,
+        {
+          onProgress: (progress) => updateItem(item.id, { progress }),
+          onSuccess: () => finalize(item),
+          onError: (error) => updateItem(item.id, { status: 'error', error: error.message }),
+        }
+      );
+      uploads.current.set(item.id, upload);
+      filePaths.current.set(item.id, filePath);
+    } catch (error) {
+      updateItem(item.id, { status: 'error', error: (error as Error).message || 'Une erreur est survenue' });
+    }
+  }, [user, updateItem, finalize]);
+
+  // Start queued uploads as slots free up
+  useEffect(() => {
+    const running = items.filter(i => i.status === 'uploading' || i.status === 'finalizing').length;
+    items
+      .filter(i => i.status === 'queued')
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - running))
+      .forEach(startUpload);
+  }, [items, startUpload]);
+
+  // One summary once the whole batch has settled
+  useEffect(() => {
+    const active = items.some(isActive);
+    if (wasActive.current && !active) {
+      const done = items.filter(i => i.status === 'done').length;
+      const failed = items.filter(i => i.status === 'error').length;
+      toast({
+        title: failed ? 'Upload terminé avec des erreurs' : 'Upload terminé',
+        description: `${done} fichier${done !== 1 ? 's' : ''} ajouté${done !== 1 ? 's' : ''}`
+          + (failed ? `, ${failed} en erreur` : '.'),
+        variant: failed ? 'destructive' : 'default',
+      });
+    }
+    wasActive.current = active;
+  }, [items, toast]);
+
+  // Leaving the page would interrupt the uploads in progress
+  useEffect(() => {
+    if (!items.some(isActive)) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [items]);
+
+  // Drop the queue on sign out
+  useEffect(() => {
+    if (user) return;
+    uploads.current.forEach(upload => upload.abort());
+    uploads.current.clear();
+    filePaths.current.clear();
+    uploaded.current.clear();
+    setItems([]);
+  }, [user]);
+
+  // Hash the new files and hold back those whose content is already stored,
+  // or appears earlier in the same batch, until the user decides
+  const checkDuplicates = useCallback(async (batch: UploadItem[]) => {
+    if (batch.length === 0) return;
+
+    try {
+      const hashes = new Map<string, string>();
+      // One file hashed at a time
+      for (const item of batch) {
+        hashes.set(item.id, await computeFileHash(item.file));
+      }
+      const existing = await findDuplicates([...new Set(hashes.values())]);
+
+      const firstByHash = new Map<string, UploadItem>();
+      const changes = new Map<string, Partial<UploadItem>>();
+      for (const item of batch) {
+        const hash = hashes.get(item.id)!;
+        // A new version replaces content on purpose
+        if (item.versionOf) {
+          changes.set(item.id, { status: 'queued', contentHash: hash });
+          continue;
+        }
+        const first = firstByHash.get(hash);
+        const duplicate = existing.get(hash) ?? (first ? { id: null, name: first.file.name } : null);
+        if (!first) firstByHash.set(hash, item);
+        changes.set(item.id, { status: duplicate ? 'duplicate' : 'queued', contentHash: hash, duplicate });
+      }
+
+      setItems(prev => prev.map(item => {
+        const change = changes.get(item.id);
+        return change && item.status === 'checking' ? { ...item, ...change } : item;
+      }));
+    } catch (error) {
+      const ids = new Set(batch.map(item => item.id));
+      setItems(prev => prev.map(item => (
+        ids.has(item.id) && item.status === 'checking'
+          ? { ...item, status: 'error', error: 'Impossible de vérifier les doublons' }
+          : item
+      )));
+    }
+  }, []);
+
+  const enqueue = useCallback(async (sources: UploadSource[], folderId: string | null) => {
+    if (!user || sources.length === 0) return;
+
+    // Dropped directories are recreated as folders under the target folder
+    let folderIds = new Map<string, string | null>([['', folderId]]);
+    if (sources.some(source => source.path.length > 0)) {
+      try {
+        const tree = await resolveFolderTree(sources, folderId, user.id, canCreateFolders);
+        folderIds = tree.folderIds;
+        if (tree.skipped > 0) {
+          toast({
+            title: 'Dossiers non créés',
+            description: 'Vous n\'avez pas les permissions pour créer des dossiers : les fichiers sont ajoutés au dossier parent.',
+          });
+        }
+      } catch (error) {
+        toast({
+          title: 'Erreur',
+          description: 'Impossible de créer les dossiers',
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+
+    const added = sources.map(({ file, path }): UploadItem => {
+      const accepted = isAcceptedFile(file);
+      return {
+        id: crypto.randomUUID(),
+        file,
+        folderId: folderIds.get(path.join('/')) ?? folderId,
+        status: accepted ? 'checking' : 'error',
+        progress: 0,
+        error: accepted ? null : 'Type de fichier non supporté',
+        contentHash: null,
+        duplicate: null,
+        replaceDocumentId: null,
+        versionOf: null,
+      };
+    });
+    setItems(prev => [...prev, ...added]);
+    checkDuplicates(added.filter(item => item.status === 'checking'));
+  }, [user, canCreateFolders, toast, checkDuplicates]);
+
+  const enqueueVersion = useCallback((file: File, documentId: string) => {
+    const accepted = isAcceptedFile(file);
+    const item: UploadItem = {
+      id: crypto.randomUUID(),
+      file,
+      folderId: null,
+      status: accepted ? 'checking' : 'error',
+      progress: 0,
+      error: accepted ? null : 'Type de fichier non supporté',
+      contentHash: null,
+      duplicate: null,
+      replaceDocumentId: null,
+      versionOf: documentId,
+    };
+    setItems(prev => [...prev, item]);
+    if (accepted) checkDuplicates([item]);
+  }, [checkDuplicates]);
+
+  const pause = useCallback((id: string) => {
+    const upload = uploads.current.get(id);
+    if (!upload) return;
+    upload.abort();
+    updateItem(id, { status: 'paused' });
+  }, [updateItem]);
+
+  const resume = useCallback((id: string) => {
+    updateItem(id, { status: 'queued' });
+  }, [updateItem]);
+
+  const cancel = useCallback((id: string) => {
+    const filePath = filePaths.current.get(id);
+    if (uploaded.current.has(id) && filePath) {
+      supabase.storage.from('documents').remove([filePath]);
+    } else {
+      // Terminating also removes the partial upload from storage
+      uploads.current.get(id)?.abort(true).catch(() => undefined);
+    }
+    uploads.current.delete(id);
+    filePaths.current.delete(id);
+    uploaded.current.delete(id);
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item || item.status !== 'error' || !isAcceptedFile(item.file)) return;
+
+    if (uploaded.current.has(id)) {
+      finalize(item);
+    } else if (!item.contentHash && !item.duplicate) {
+      // The duplicate check itself failed
+      updateItem(id, { status: 'checking', error: null });
+      checkDuplicates([item]);
+    } else {
+      updateItem(id, { status: 'queued', error: null });
+    }
+  }, [items, finalize, updateItem, checkDuplicates]);
+
+  const resolveDuplicate = useCallback((id: string, resolution: DuplicateResolution) => {
+    if (resolution === 'skip') {
+      cancel(id);
+      return;
+    }
+    setItems(prev => prev.map(item => {
+      if (item.id !== id || item.status !== 'duplicate') return item;
+      return resolution === 'replace' && item.duplicate?.id
+        ? { ...item, status: 'queued', replaceDocumentId: item.duplicate.id }
+        // The copy is stored without a hash, outside the uniqueness check
+        : { ...item, status: 'queued', contentHash: null };
+    }));
+  }, [cancel]);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+  }, []);
+
+  const value = useMemo(
+    () => ({ items, enqueue, enqueueVersion, pause, resume, cancel, retry, resolveDuplicate, clearFinished }),
+    [items, enqueue, enqueueVersion, pause, resume, cancel, retry, resolveDuplicate, clearFinished]
+  );
+
+  return (
+    <UploadQueueContext.Provider value={value}>
+      {children}
+    </UploadQueueContext.Provider>
+  );
+}
@@ -0,0 +1,219 @@
+import { useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useRealtimeBroadcast, useRealtimeChanges } from '@/hooks/useRealtimeRows';
+import { getDescendantIds, type FolderLike } from '@/lib/folders';
+import { toDateRange, type DocumentSearchFilters, type DocumentSort } from '@/lib/documentSearch';
+import type { Tag } from '@/lib/tags';
+
+export const DOCUMENTS_PAGE_SIZE = 50;
+
+export const documentQueryKeys = {
+  folders: ['folders'] as const,
+  folderCounts: ['folder-document-counts'] as const,
+  tags: ['tags'] as const,
+  // Prefix shared by folder listings and searches, for cache updates
+  documents: ['documents'] as const,
+  folderListings: ['documents', 'folder'] as const,
+  folderDocuments: (folderId: string | null, sort: DocumentSort) => ['documents', 'folder', folderId, sort] as const,
+  search: (filters: DocumentSearchFilters) => ['documents', 'search', filters] as const,
+};
+
+// Tags come from document_tags and are resolved against useTags
+type DocumentRow = Tables<'documents'> & { tag_ids: string[] };
+type SearchRow = DocumentRow & { headline: string | null; total_count: number };
+
+interface DocumentPage<T> {
+  rows: T[];
+  total: number;
+}
+
+const sortColumns: Record<DocumentSort, { column: 'created_at' | 'name' | 'file_size'; ascending: boolean }> = {
+  // Relevance only applies to searches; listings fall back to newest first
+  relevance: { column: 'created_at', ascending: false },
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  name: { column: 'name', ascending: true },
+  size: { column: 'file_size', ascending: false },
+};
+
+function getNextPageParam<T>(lastPage: DocumentPage<T>, pages: DocumentPage<T>[]): number | undefined {
+  const loaded = pages.reduce((sum, page) => sum + page.rows.length, 0);
+  return loaded < lastPage.total ? loaded : undefined;
+}
+
+export function useFolders<T extends FolderLike>(enabled = true) {
+  return useQuery({
+    queryKey: documentQueryKeys.folders,
+    enabled,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('folders')
+        .select('*')
+        .order('name', { ascending: true });
+      if (error) throw error;
+      return data as unknown as T[];
+    },
+  });
+}
+
+export function useTags(enabled = true) {
+  return useQuery({
+    queryKey: documentQueryKeys.tags,
+    enabled,
+    queryFn: async (): Promise<Tag[]> => {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, name')
+        .order('name', { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Recursive document counts per folder
+export function useFolderDocumentCounts(enabled = true) {
+  return useQuery({
+    queryKey: documentQueryKeys.folderCounts,
+    enabled,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_folder_document_counts');
+      if (error) throw error;
+      return new Map((data || []).map(row => [row.folder_id, row.document_count]));
+    },
+  });
+}
+
+// Documents directly in a folder (or at the root), one page at a time
+export function useFolderDocuments(folderId: string | null, sort: DocumentSort, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: documentQueryKeys.folderDocuments(folderId, sort),
+    enabled,
+    initialPageParam: 0,
+    getNextPageParam: (lastPage: DocumentPage<DocumentRow>, pages: DocumentPage<DocumentRow>[]) =>
+      getNextPageParam(lastPage, pages),
+    queryFn: async ({ pageParam }): Promise<DocumentPage<DocumentRow>> => {
+      const { column, ascending } = sortColumns[sort];
+      let query = supabase
+        .from('documents')
+        .select('*, document_tags(tag_id)', { count: 'exact' })
+        .order(column, { ascending })
+        .order('id', { ascending: true })
+        .range(pageParam, pageParam + DOCUMENTS_PAGE_SIZE - 1);
+      query = folderId ? query.eq('folder_id', folderId) : query.is('folder_id', null);
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+      const rows = data.map(({ document_tags, ...row }) => ({ ...row, tag_ids: document_tags.map(dt => dt.tag_id) }));
+      return { rows, total: count ?? data.length };
+    },
+  });
+}
+
+// search_documents across every accessible document, one page at a time
+export function useDocumentSearch(filters: DocumentSearchFilters, folders: FolderLike[], enabled = true) {
+  return useInfiniteQuery({
+    queryKey: documentQueryKeys.search(filters),
+    enabled,
+    initialPageParam: 0,
+    getNextPageParam: (lastPage: DocumentPage<SearchRow>, pages: DocumentPage<SearchRow>[]) =>
+      getNextPageParam(lastPage, pages),
+    queryFn: async ({ pageParam }): Promise<DocumentPage<SearchRow>> => {
+      const { createdAfter, createdBefore } = toDateRange(filters);
+      const { data, error } = await supabase.rpc('search_documents', {
+        search_query: filters.query.trim() || undefined,
+        filter_statuses: filters.statuses.length ? filters.statuses : undefined,
+        filter_file_types: filters.fileTypes.length ? filters.fileTypes : undefined,
+        filter_uploader_ids: filters.uploaderIds.length ? filters.uploaderIds : undefined,
+        filter_folder_ids: filters.folderId ? [...getDescendantIds(folders, filters.folderId)] : undefined,
+        filter_tag_ids: filters.tagIds.length ? filters.tagIds : undefined,
+        created_after: createdAfter,
+        created_before: createdBefore,
+        sort_by: filters.sort,
+        result_limit: DOCUMENTS_PAGE_SIZE,
+        result_offset: pageParam,
+      });
+      if (error) throw error;
+      return { rows: data as unknown as SearchRow[], total: data[0]?.total_count ?? 0 };
+    },
+  });
+}
+
+export function flattenPages<T>(data: InfiniteData<DocumentPage<T>> | undefined): T[] {
+  return data?.pages.flatMap(page => page.rows) ?? [];
+}
+
+// Keeps the cached listings live: status updates are merged in place, while
+// inserts, deletes, moves, tag changes and trash or restore refetch the
+// affected pages and folder counts.
+export function useDocumentsRealtime(enabled = true) {
+  const queryClient = useQueryClient();
+
+  const invalidateDocuments = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: documentQueryKeys.documents });
+    queryClient.invalidateQueries({ queryKey: documentQueryKeys.folderCounts });
+  }, [queryClient]);
+
+  // With RLS the old record only carries the primary key, so moves are
+  // detected against the cached folder listings
+  const isMove = useCallback((row: Tables<'documents'>) => {
+    const listings = queryClient.getQueriesData<InfiniteData<DocumentPage<DocumentRow>>>({
+      queryKey: documentQueryKeys.folderListings,
+    });
+    return listings.some(([key, data]) => {
+      if (!data) return false;
+      const rows = flattenPages(data);
+      const cached = rows.find(r => r.id === row.id);
+      if (cached) return cached.folder_id !== row.folder_id;
+      // A row moved into a listing only matters once every page is loaded
+      const fullyLoaded = rows.length >= (data.pages[data.pages.length - 1]?.total ?? 0);
+      return key[2] === row.folder_id && fullyLoaded;
+    });
+  }, [queryClient]);
+
+  const onDocumentChange = useCallback((payload: RealtimePostgresChangesPayload<Tables<'documents'>>) => {
+    if (payload.eventType !== 'UPDATE' || isMove(payload.new)) {
+      invalidateDocuments();
+      return;
+    }
+
+    queryClient.setQueriesData<InfiniteData<DocumentPage<DocumentRow>>>(
+      { queryKey: documentQueryKeys.documents },
+      (data) => data && {
+        ...data,
+        pages: data.pages.map(page => ({
+          ...page,
+          rows: page.rows.map(row => (row.id === payload.new.id ? { ...row, ...payload.new } : row)),
+        })),
+      }
+    );
+  }, [queryClient, invalidateDocuments, isMove]);
+
+  const onFolderChange = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: documentQueryKeys.folders });
+    queryClient.invalidateQueries({ queryKey: documentQueryKeys.folderCounts });
+  }, [queryClient]);
+
+  // A tag may have been created along with the change
+  const onDocumentTagChange = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: documentQueryKeys.tags });
+    invalidateDocuments();
+  }, [queryClient, invalidateDocuments]);
+
+  useRealtimeChanges<Tables<'documents'>>('documents', onDocumentChange, { enabled });
+  useRealtimeChanges('folders', onFolderChange, { enabled });
+  useRealtimeChanges('document_tags', onDocumentTagChange, { enabled });
+  // Trashed rows are hidden by RLS, their changes come as broadcasts
+  useRealtimeBroadcast('trash', () => {
+    invalidateDocuments();
+    onFolderChange();
+  }, { enabled });
+
+  return useMemo(
+    () => ({ invalidateDocuments, invalidateFolders: onFolderChange, invalidateTags: onDocumentTagChange }),
+    [invalidateDocuments, onFolderChange, onDocumentTagChange]
+  );
+}
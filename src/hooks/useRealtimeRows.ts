@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, type Dispatch, type SetStateAction } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+type RealtimeTable = 'documents' | 'folders' | 'document_tags' | 'conversations';
+
+interface RealtimeChangesOptions {
+  // Postgres changes filter, e.g. `user_id=eq.${user.id}`
+  filter?: string;
+  enabled?: boolean;
+}
+
+interface RealtimeRowsOptions<T> extends RealtimeChangesOptions {
+  // Keeps the local list ordered after an insert or update
+  sort?: (a: T, b: T) => number;
+}
+
+// Calls onChange for every insert, update and delete on the table. The
+// callback is read through a ref so an inline function does not resubscribe.
+export function useRealtimeChanges<T extends { id: string }>(
+  table: RealtimeTable,
+  onChange: (payload: RealtimePostgresChangesPayload<T>) => void,
+  { filter, enabled = true }: RealtimeChangesOptions = {}
+) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(`realtime-${table}-${filter ?? 'all'}-${Math.random().toString(36).slice(2)}`)
+      .on<T>('postgres_changes', { event: '*', schema: 'public', table, filter }, (payload) => {
+        onChangeRef.current(payload);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter, enabled]);
+}
+
+// Calls onMessage for every message broadcast on a public topic, e.g. by
+// realtime.send() in a database trigger
+export function useRealtimeBroadcast(
+  topic: string,
+  onMessage: () => void,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(topic)
+      .on('broadcast', { event: '*' }, () => {
+        onMessageRef.current();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [topic, enabled]);
+}
+
+// Keeps a list of rows loaded with select('*') in sync with Supabase Realtime:
+// inserts are added, updates merged and deletes removed, for changes made in
+// other tabs, by teammates or by the ingestion pipeline.
+export function useRealtimeRows<T extends { id: string }>(
+  table: RealtimeTable,
+  setRows: Dispatch<SetStateAction<T[]>>,
+  { sort, ...options }: RealtimeRowsOptions<T> = {}
+) {
+  // Read through a ref so an inline comparator does not rebuild the handler
+  const sortRef = useRef(sort);
+  sortRef.current = sort;
+
+  const applyChange = useCallback((payload: RealtimePostgresChangesPayload<T>) => {
+    setRows(prev => {
+      let next = prev;
+
+      if (payload.eventType === 'INSERT') {
+        if (prev.some(row => row.id === payload.new.id)) return prev;
+        next = [payload.new, ...prev];
+      } else if (payload.eventType === 'UPDATE') {
+        next = prev.map(row => (row.id === payload.new.id ? { ...row, ...payload.new } : row));
+      } else if (payload.eventType === 'DELETE') {
+        // With RLS, the old record only carries the primary key
+        return prev.filter(row => row.id !== payload.old.id);
+      }
+
+      return sortRef.current ? [...next].sort(sortRef.current) : next;
+    });
+  }, [setRows]);
+
+  useRealtimeChanges(table, applyChange, options);
+}
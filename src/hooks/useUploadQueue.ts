@@ -0,0 +1,53 @@
+import { createContext, useContext } from 'react';
+import type { DuplicateDocument, UploadSource } from '@/lib/uploads';
+
+export type UploadStatus =
+  | 'checking'
+  | 'duplicate'
+  | 'queued'
+  | 'uploading'
+  | 'paused'
+  | 'finalizing'
+  | 'done'
+  | 'error';
+
+export type DuplicateResolution = 'replace' | 'keep' | 'skip';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  folderId: string | null;
+  status: UploadStatus;
+  progress: number;
+  error: string | null;
+  // SHA-256 stored on the document; null once a duplicate is kept anyway
+  contentHash: string | null;
+  // Document, or earlier file of the same batch, with identical content
+  duplicate: DuplicateDocument | null;
+  // Document moved to the trash once this file has been uploaded
+  replaceDocumentId: string | null;
+  // Document this file becomes the new version of
+  versionOf: string | null;
+}
+
+export interface UploadQueueContextType {
+  items: UploadItem[];
+  enqueue: (sources: UploadSource[], folderId: string | null) => Promise<void>;
+  enqueueVersion: (file: File, documentId: string) => void;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  resolveDuplicate: (id: string, resolution: DuplicateResolution) => void;
+  clearFinished: () => void;
+}
+
+export const UploadQueueContext = createContext<UploadQueueContextType | undefined>(undefined);
+
+export function useUploadQueue() {
+  const context = useContext(UploadQueueContext);
+  if (context === undefined) {
+    throw new Error('useUploadQueue must be used within an UploadQueueProvider');
+  }
+  return context;
+}
@@ -14,12 +14,31 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          id: boolean
+          trash_retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       chat_messages: {
         Row: {
           content: string
           conversation_id: string
           created_at: string
           id: string
+          parent_id: string | null
           role: string
           user_id: string
         }
@@ -28,6 +47,7 @@ export type Database = {
           conversation_id: string
           created_at?: string
           id?: string
+          parent_id?: string | null
           role: string
           user_id: string
         }
@@ -36,6 +56,7 @@ export type Database = {
           conversation_id?: string
           created_at?: string
           id?: string
+          parent_id?: string | null
           role?: string
           user_id?: string
         }
@@ -47,65 +68,306 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chat_messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      conversation_folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       conversations: {
         Row: {
+          archived_at: string | null
           created_at: string
+          folder_id: string | null
           id: string
+          pinned_at: string | null
+          scope_document_ids: string[]
+          scope_folder_ids: string[]
+          scope_tag_ids: string[]
+          scope_version_ids: string[]
           title: string
+          title_generated: boolean
+          title_locked: boolean
           updated_at: string
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
+          folder_id?: string | null
           id?: string
+          pinned_at?: string | null
+          scope_document_ids?: string[]
+          scope_folder_ids?: string[]
+          scope_tag_ids?: string[]
+          scope_version_ids?: string[]
           title?: string
+          title_generated?: boolean
+          title_locked?: boolean
           updated_at?: string
           user_id: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
+          folder_id?: string | null
           id?: string
+          pinned_at?: string | null
+          scope_document_ids?: string[]
+          scope_folder_ids?: string[]
+          scope_tag_ids?: string[]
+          scope_version_ids?: string[]
           title?: string
+          title_generated?: boolean
+          title_locked?: boolean
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "conversations_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "conversation_folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          document_id: string
+          embedding: string | null
+          id: string
+          page: number | null
+          search_vector: unknown
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          document_id: string
+          embedding?: string | null
+          id?: string
+          page?: number | null
+          search_vector?: unknown
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          document_id?: string
+          embedding?: string | null
+          id?: string
+          page?: number | null
+          search_vector?: unknown
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          document_id: string
+          id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          document_id: string
+          id?: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          document_id?: string
+          id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_tags_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_versions: {
+        Row: {
+          content_hash: string | null
+          created_at: string
+          document_id: string
+          extracted_text: string | null
+          file_name: string
+          file_path: string
+          file_size: number
+          file_type: string
+          id: string
+          uploaded_by: string | null
+          version_number: number
+        }
+        Insert: {
+          content_hash?: string | null
+          created_at?: string
+          document_id: string
+          extracted_text?: string | null
+          file_name: string
+          file_path: string
+          file_size: number
+          file_type: string
+          id?: string
+          uploaded_by?: string | null
+          version_number: number
+        }
+        Update: {
+          content_hash?: string | null
+          created_at?: string
+          document_id?: string
+          extracted_text?: string | null
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          file_type?: string
+          id?: string
+          uploaded_by?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       documents: {
         Row: {
+          chunk_count: number | null
+          content_hash: string | null
           created_at: string
+          current_version: number
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string | null
+          effective_date: string | null
+          error_message: string | null
           file_path: string
           file_size: number
           file_type: string
           folder_id: string | null
           id: string
+          ingestion_attempts: number
+          ingestion_backend: string
+          ingestion_progress: number | null
+          ingestion_run_id: string | null
+          language: string | null
           name: string
+          name_search: unknown
+          next_retry_at: string | null
+          page_count: number | null
           status: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          chunk_count?: number | null
+          content_hash?: string | null
           created_at?: string
+          current_version?: number
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          effective_date?: string | null
+          error_message?: string | null
           file_path: string
           file_size: number
           file_type: string
           folder_id?: string | null
           id?: string
+          ingestion_attempts?: number
+          ingestion_backend?: string
+          ingestion_progress?: number | null
+          ingestion_run_id?: string | null
+          language?: string | null
           name: string
+          name_search?: unknown
+          next_retry_at?: string | null
+          page_count?: number | null
           status?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          chunk_count?: number | null
+          content_hash?: string | null
           created_at?: string
+          current_version?: number
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          effective_date?: string | null
+          error_message?: string | null
           file_path?: string
           file_size?: number
           file_type?: string
           folder_id?: string | null
           id?: string
+          ingestion_attempts?: number
+          ingestion_backend?: string
+          ingestion_progress?: number | null
+          ingestion_run_id?: string | null
+          language?: string | null
           name?: string
+          name_search?: unknown
+          next_retry_at?: string | null
+          page_count?: number | null
           status?: string
           updated_at?: string
           user_id?: string
@@ -154,8 +416,11 @@ export type Database = {
           access_level: Database["public"]["Enums"]["folder_access_level"]
           created_at: string
           created_by: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           id: string
           name: string
+          parent_id: string | null
           updated_at: string
           user_id: string
         }
@@ -163,8 +428,11 @@ export type Database = {
           access_level?: Database["public"]["Enums"]["folder_access_level"]
           created_at?: string
           created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
           name: string
+          parent_id?: string | null
           updated_at?: string
           user_id: string
         }
@@ -172,12 +440,23 @@ export type Database = {
           access_level?: Database["public"]["Enums"]["folder_access_level"]
           created_at?: string
           created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
           name?: string
+          parent_id?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "folders_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       invitations: {
         Row: {
@@ -212,6 +491,107 @@ export type Database = {
         }
         Relationships: []
       }
+      message_citations: {
+        Row: {
+          chunk_index: number | null
+          created_at: string
+          document_id: string | null
+          document_name: string | null
+          id: string
+          message_id: string
+          page: number | null
+          position: number
+          score: number | null
+          snippet: string | null
+        }
+        Insert: {
+          chunk_index?: number | null
+          created_at?: string
+          document_id?: string | null
+          document_name?: string | null
+          id?: string
+          message_id: string
+          page?: number | null
+          position: number
+          score?: number | null
+          snippet?: string | null
+        }
+        Update: {
+          chunk_index?: number | null
+          created_at?: string
+          document_id?: string | null
+          document_name?: string | null
+          id?: string
+          message_id?: string
+          page?: number | null
+          position?: number
+          score?: number | null
+          snippet?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_citations_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_citations_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_feedback: {
+        Row: {
+          correction: string | null
+          created_at: string
+          id: string
+          message_id: string
+          rating: string
+          reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          correction?: string | null
+          created_at?: string
+          id?: string
+          message_id: string
+          rating: string
+          reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          correction?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string
+          rating?: string
+          reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_feedback_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -239,6 +619,27 @@ export type Database = {
         }
         Relationships: []
       }
+      tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -268,10 +669,30 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_document_version: {
+        Args: {
+          _content_hash: string
+          _document_id: string
+          _file_name: string
+          _file_path: string
+          _file_size: number
+          _file_type: string
+          _uploaded_by: string
+        }
+        Returns: number
+      }
       can_access_folder: {
         Args: { _folder_id: string; _user_id: string }
         Returns: boolean
       }
+      can_view_document: {
+        Args: { _folder_id: string; _owner_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_document_file: {
+        Args: { _file_path: string }
+        Returns: boolean
+      }
       can_view_folder: {
         Args: {
           _access_level: Database["public"]["Enums"]["folder_access_level"]
@@ -282,6 +703,102 @@ export type Database = {
         }
         Returns: boolean
       }
+      can_view_folder_tree: {
+        Args: { _folder_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_message_sources: {
+        Args: { _message_id: string; _user_id: string }
+        Returns: boolean
+      }
+      find_documents_by_hash: {
+        Args: { hashes: string[] }
+        Returns: {
+          content_hash: string
+          folder_id: string
+          id: string
+          name: string
+        }[]
+      }
+      get_accessible_documents: {
+        Args: never
+        Returns: {
+          folder_id: string
+          id: string
+          name: string
+        }[]
+      }
+      get_document_uploader: {
+        Args: { _document_id: string }
+        Returns: {
+          email: string
+          full_name: string
+          id: string
+        }[]
+      }
+      get_document_uploaders: {
+        Args: never
+        Returns: {
+          email: string
+          full_name: string
+          id: string
+        }[]
+      }
+      get_feedback_conversation: {
+        Args: { _feedback_id: string }
+        Returns: {
+          content: string
+          created_at: string
+          id: string
+          role: string
+        }[]
+      }
+      get_folder_document_counts: {
+        Args: never
+        Returns: {
+          document_count: number
+          folder_id: string
+        }[]
+      }
+      get_folder_tree_document_ids: {
+        Args: { _folder_id: string }
+        Returns: {
+          id: string
+        }[]
+      }
+      get_negative_feedback: {
+        Args: never
+        Returns: {
+          answer: string
+          citations: Json
+          conversation_id: string
+          conversation_title: string
+          correction: string
+          created_at: string
+          id: string
+          message_id: string
+          question: string
+          reason: string
+          reviewed_at: string
+          reviewed_by_name: string
+          user_name: string
+        }[]
+      }
+      get_trash: {
+        Args: never
+        Returns: {
+          deleted_at: string
+          deleted_by_name: string
+          document_count: number
+          file_size: number
+          file_type: string
+          id: string
+          item_type: string
+          name: string
+          parent_name: string
+          purge_at: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -300,6 +817,112 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_hidden_duplicate: {
+        Args: { _content_hash: string; _user_id: string }
+        Returns: boolean
+      }
+      is_trashed_folder: {
+        Args: { _folder_id: string }
+        Returns: boolean
+      }
+      match_document_chunks: {
+        Args: {
+          effective_after?: string
+          effective_before?: string
+          filter_document_ids?: string[]
+          filter_language?: string
+          filter_tags?: string[]
+          match_count?: number
+          min_similarity?: number
+          query_embedding: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          description: string
+          document_id: string
+          document_name: string
+          effective_date: string
+          id: string
+          language: string
+          page: number
+          similarity: number
+          tags: string[]
+        }[]
+      }
+      rename_document: {
+        Args: { _document_id: string; _name: string }
+        Returns: undefined
+      }
+      restore_document: {
+        Args: { _document_id: string }
+        Returns: undefined
+      }
+      restore_folder: {
+        Args: { _folder_id: string }
+        Returns: undefined
+      }
+      search_documents: {
+        Args: {
+          created_after?: string
+          created_before?: string
+          filter_file_types?: string[]
+          filter_folder_ids?: string[]
+          filter_statuses?: string[]
+          filter_tag_ids?: string[]
+          filter_uploader_ids?: string[]
+          result_limit?: number
+          result_offset?: number
+          search_query?: string
+          sort_by?: string
+        }
+        Returns: {
+          chunk_count: number
+          created_at: string
+          description: string
+          effective_date: string
+          error_message: string
+          file_size: number
+          file_type: string
+          folder_id: string
+          headline: string
+          id: string
+          ingestion_attempts: number
+          ingestion_progress: number
+          language: string
+          name: string
+          next_retry_at: string
+          page_count: number
+          rank: number
+          status: string
+          tag_ids: string[]
+          total_count: number
+          user_id: string
+        }[]
+      }
+      set_feedback_reviewed: {
+        Args: { _feedback_id: string; _reviewed: boolean }
+        Returns: undefined
+      }
+      trash_document: {
+        Args: { _document_id: string }
+        Returns: string
+      }
+      trash_folder: {
+        Args: { _folder_id: string }
+        Returns: undefined
+      }
+      update_document_metadata: {
+        Args: {
+          _description?: string
+          _document_id: string
+          _effective_date?: string
+          _language?: string
+          _name: string
+          _tags?: string[]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "super_admin" | "admin" | "editor" | "reader"
@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+export interface Citation {
+  document_id: string | null;
+  document_name: string | null;
+  chunk_index: number | null;
+  page: number | null;
+  snippet: string | null;
+  score: number | null;
+}
+
+// The answer as stored by the n8n-chat function, with its citations
+export interface StoredAnswer {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+}
+
+type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; output: string; citations?: Citation[]; message?: StoredAnswer | null }
+  | { type: 'error'; error: string };
+
+interface StreamChatOptions {
+  body: Record<string, unknown>;
+  signal?: AbortSignal;
+  onToken: (token: string) => void;
+}
+
+export interface StreamChatResult {
+  output: string;
+  citations: Citation[];
+  // Null when the answer could not be stored
+  message: StoredAnswer | null;
+}
+
+// supabase.functions.invoke buffers the whole body, so the streaming mode of
+// the n8n-chat function is consumed with a plain fetch.
+export async function streamChat({ body, signal, onToken }: StreamChatOptions): Promise<StreamChatResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/n8n-chat`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session?.access_token ?? SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error || 'Erreur de communication avec le chatbot');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let output = '';
+  let citations: Citation[] = [];
+  let message: StoredAnswer | null = null;
+
+  const handleEvent = (raw: string) => {
+    const data = raw
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('');
+    if (!data) return;
+
+    const event = JSON.parse(data) as ChatStreamEvent;
+    if (event.type === 'token') {
+      output += event.content;
+      onToken(event.content);
+    } else if (event.type === 'done') {
+      output = event.output || output;
+      citations = event.citations ?? [];
+      message = event.message ?? null;
+    } else if (event.type === 'error') {
+      throw new Error(event.error || 'Erreur de communication avec le chatbot');
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    events.forEach(handleEvent);
+  }
+  handleEvent(buffer);
+
+  return { output, citations, message };
+}
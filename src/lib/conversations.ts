@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+export const MAX_CONVERSATION_TITLE_LENGTH = 100;
+
+export interface ConversationFolder {
+  id: string;
+  name: string;
+}
+
+export interface ConversationUpdate {
+  title?: string;
+  // Set with a title chosen by the user so it is not replaced by a generated one
+  title_locked?: boolean;
+  folder_id?: string | null;
+  pinned_at?: string | null;
+  archived_at?: string | null;
+}
+
+export async function updateConversation(conversationId: string, update: ConversationUpdate): Promise<void> {
+  const { error } = await supabase.from('conversations').update(update).eq('id', conversationId);
+  if (error) throw error;
+}
+
+export async function createConversationFolder(name: string): Promise<ConversationFolder> {
+  const { data, error } = await supabase
+    .from('conversation_folders')
+    .insert({ name: name.trim() })
+    .select('id, name')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function renameConversationFolder(folderId: string, name: string): Promise<void> {
+  const { error } = await supabase.from('conversation_folders').update({ name: name.trim() }).eq('id', folderId);
+  if (error) throw error;
+}
+
+// Its conversations go back to the main list
+export async function deleteConversationFolder(folderId: string): Promise<void> {
+  const { error } = await supabase.from('conversation_folders').delete().eq('id', folderId);
+  if (error) throw error;
+}
+
+export interface DateGroup<T> {
+  label: string;
+  items: T[];
+}
+
+function getDateGroupLabel(date: Date, now: Date): string {
+  const days = differenceInCalendarDays(now, date);
+  if (days <= 0) return "Aujourd'hui";
+  if (days === 1) return 'Hier';
+  if (days < 7) return '7 derniers jours';
+  if (days < 30) return '30 derniers jours';
+  const label = format(date, 'MMMM yyyy', { locale: fr });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+// Groups by last activity, newest first: today, yesterday, the last 7 and 30
+// days, then one group per month
+export function groupByDate<T extends { updated_at: string }>(items: T[], now = new Date()): DateGroup<T>[] {
+  const groups: DateGroup<T>[] = [];
+  const sorted = [...items].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+  for (const item of sorted) {
+    const label = getDateGroupLabel(new Date(item.updated_at), now);
+    const last = groups[groups.length - 1];
+    if (last?.label === label) {
+      last.items.push(item);
+    } else {
+      groups.push({ label, items: [item] });
+    }
+  }
+  return groups;
+}
@@ -0,0 +1,86 @@
+export type DocumentSort = 'relevance' | 'newest' | 'oldest' | 'name' | 'size';
+
+export interface DocumentSearchFilters {
+  query: string;
+  statuses: string[];
+  fileTypes: string[];
+  uploaderIds: string[];
+  // Includes its sub-folders
+  folderId: string | null;
+  // Documents carrying any of these tags
+  tagIds: string[];
+  // yyyy-MM-dd, inclusive
+  from: string | null;
+  to: string | null;
+  sort: DocumentSort;
+}
+
+export const DOCUMENT_FILE_TYPES = ['pdf', 'docx', 'txt', 'md', 'csv', 'json'];
+
+export const DOCUMENT_SORT_LABELS: Record<DocumentSort, string> = {
+  relevance: 'Pertinence',
+  newest: 'Plus récents',
+  oldest: 'Plus anciens',
+  name: 'Nom',
+  size: 'Taille',
+};
+
+const list = (params: URLSearchParams, key: string) =>
+  params.get(key)?.split(',').filter(Boolean) ?? [];
+
+// Filters live in the URL (?q=&status=&type=&uploader=&in=&tag=&from=&to=&sort=)
+// so that searches can be bookmarked and shared
+export function parseSearchFilters(params: URLSearchParams): DocumentSearchFilters {
+  const sort = params.get('sort') as DocumentSort | null;
+  return {
+    query: params.get('q') ?? '',
+    statuses: list(params, 'status'),
+    fileTypes: list(params, 'type'),
+    uploaderIds: list(params, 'uploader'),
+    folderId: params.get('in'),
+    tagIds: list(params, 'tag'),
+    from: params.get('from'),
+    to: params.get('to'),
+    sort: sort && Object.hasOwn(DOCUMENT_SORT_LABELS, sort) ? sort : 'relevance',
+  };
+}
+
+export function toSearchParams(filters: DocumentSearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  if (filters.statuses.length) params.set('status', filters.statuses.join(','));
+  if (filters.fileTypes.length) params.set('type', filters.fileTypes.join(','));
+  if (filters.uploaderIds.length) params.set('uploader', filters.uploaderIds.join(','));
+  if (filters.folderId) params.set('in', filters.folderId);
+  if (filters.tagIds.length) params.set('tag', filters.tagIds.join(','));
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.sort !== 'relevance') params.set('sort', filters.sort);
+  return params;
+}
+
+// Sorting alone does not switch the page to search results
+export function hasActiveFilters(filters: DocumentSearchFilters): boolean {
+  return !!(
+    filters.query.trim()
+    || filters.statuses.length
+    || filters.fileTypes.length
+    || filters.uploaderIds.length
+    || filters.folderId
+    || filters.tagIds.length
+    || filters.from
+    || filters.to
+  );
+}
+
+// Date inputs are local days; the upper bound is exclusive in search_documents
+export function toDateRange(filters: DocumentSearchFilters): { createdAfter?: string; createdBefore?: string } {
+  const range: { createdAfter?: string; createdBefore?: string } = {};
+  if (filters.from) range.createdAfter = new Date(`${filters.from}T00:00:00`).toISOString();
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    range.createdBefore = end.toISOString();
+  }
+  return range;
+}
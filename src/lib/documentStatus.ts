@@ -0,0 +1,8 @@
+import { CheckCircle, Clock, AlertCircle, Loader2 } from 'lucide-react';
+
+export const documentStatusConfig: Record<string, { icon: typeof Clock; label: string; color: string; bg: string; animate?: boolean }> = {
+  pending: { icon: Clock, label: 'En attente', color: 'text-warning', bg: 'bg-warning/10' },
+  processing: { icon: Loader2, label: 'Ingestion...', color: 'text-primary', bg: 'bg-primary/10', animate: true },
+  ingested: { icon: CheckCircle, label: 'Ingéré', color: 'text-success', bg: 'bg-success/10' },
+  error: { icon: AlertCircle, label: 'Erreur', color: 'text-destructive', bg: 'bg-destructive/10' },
+};
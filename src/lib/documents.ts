@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type TrashItemType = 'document' | 'folder';
+
+// Moves a document to the trash; it is purged after the retention period
+export async function trashDocument(documentId: string): Promise<{ name: string }> {
+  const { data, error } = await supabase.rpc('trash_document', { _document_id: documentId });
+  if (error) throw error;
+  return { name: data };
+}
+
+// Moves a folder to the trash with its sub-folders and documents
+export async function trashFolder(folderId: string): Promise<void> {
+  const { error } = await supabase.rpc('trash_folder', { _folder_id: folderId });
+  if (error) throw error;
+}
+
+export async function restoreTrashItem(type: TrashItemType, id: string): Promise<void> {
+  const { error } = type === 'folder'
+    ? await supabase.rpc('restore_folder', { _folder_id: id })
+    : await supabase.rpc('restore_document', { _document_id: id });
+  if (error) throw error;
+}
+
+// Removes trash items for good: vectors, stored files and rows
+export async function purgeTrashItems(items: { type: TrashItemType; id: string }[]): Promise<void> {
+  const { error } = await supabase.functions.invoke('purge-trash', {
+    body: {
+      document_ids: items.filter(i => i.type === 'document').map(i => i.id),
+      folder_ids: items.filter(i => i.type === 'folder').map(i => i.id),
+    },
+  });
+  if (error) throw error;
+}
+
+// ISO 639-1 codes offered for the document language
+export const DOCUMENT_LANGUAGES: Record<string, string> = {
+  fr: 'Français',
+  en: 'Anglais',
+  de: 'Allemand',
+  es: 'Espagnol',
+  it: 'Italien',
+  nl: 'Néerlandais',
+  pt: 'Portugais',
+};
+
+export interface DocumentMetadata {
+  name: string;
+  description: string | null;
+  tags: string[];
+  language: string | null;
+  // yyyy-MM-dd
+  effective_date: string | null;
+}
+
+export async function renameDocument(documentId: string, name: string): Promise<void> {
+  const { error } = await supabase.rpc('rename_document', { _document_id: documentId, _name: name });
+  if (error) throw error;
+}
+
+export async function updateDocumentMetadata(documentId: string, metadata: DocumentMetadata): Promise<void> {
+  const { error } = await supabase.rpc('update_document_metadata', {
+    _document_id: documentId,
+    _name: metadata.name,
+    _description: metadata.description ?? undefined,
+    _tags: metadata.tags,
+    _language: metadata.language ?? undefined,
+    _effective_date: metadata.effective_date ?? undefined,
+  });
+  if (error) throw error;
+}
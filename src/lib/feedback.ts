@@ -0,0 +1,41 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type FeedbackRating = 'up' | 'down';
+
+export const FEEDBACK_REASONS: Record<string, string> = {
+  incorrect: 'Réponse incorrecte',
+  incomplete: 'Réponse incomplète',
+  missing_information: 'Information absente des documents',
+  wrong_sources: 'Sources non pertinentes',
+  other: 'Autre',
+};
+
+export const MAX_CORRECTION_LENGTH = 4000;
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  reason: string | null;
+  // The answer the user expected
+  correction: string | null;
+}
+
+// One feedback per user and answer; changing it sends it back for review
+export async function saveFeedback(messageId: string, feedback: MessageFeedback): Promise<void> {
+  const { error } = await supabase
+    .from('message_feedback')
+    .upsert(
+      { message_id: messageId, ...feedback, reviewed_at: null, reviewed_by: null },
+      { onConflict: 'message_id,user_id' }
+    );
+  if (error) throw error;
+}
+
+export async function deleteFeedback(messageId: string): Promise<void> {
+  const { error } = await supabase.from('message_feedback').delete().eq('message_id', messageId);
+  if (error) throw error;
+}
+
+export async function setFeedbackReviewed(feedbackId: string, reviewed: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_feedback_reviewed', { _feedback_id: feedbackId, _reviewed: reviewed });
+  if (error) throw error;
+}
@@ -0,0 +1,83 @@
+export interface FolderLike {
+  id: string;
+  name: string;
+  parent_id: string | null;
+}
+
+export interface FolderTreeNode<T extends FolderLike> {
+  folder: T;
+  children: FolderTreeNode<T>[];
+}
+
+// Root-to-folder path, used for breadcrumbs. Stops at folders the user cannot see.
+export function getFolderPath<T extends FolderLike>(folders: T[], folderId: string | null): T[] {
+  const byId = new Map(folders.map(f => [f.id, f]));
+  const path: T[] = [];
+  let current = folderId ? byId.get(folderId) : undefined;
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+// The folder itself and everything below it
+export function getDescendantIds(folders: FolderLike[], folderId: string): Set<string> {
+  const ids = new Set([folderId]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parent_id && ids.has(folder.parent_id) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// Folders whose parent is hidden from the user are shown at the top level
+export function buildFolderTree<T extends FolderLike>(folders: T[]): FolderTreeNode<T>[] {
+  const ids = new Set(folders.map(f => f.id));
+  const nodes = new Map(folders.map(f => [f.id, { folder: f, children: [] as FolderTreeNode<T>[] }]));
+  const roots: FolderTreeNode<T>[] = [];
+
+  for (const folder of folders) {
+    const node = nodes.get(folder.id)!;
+    if (folder.parent_id && ids.has(folder.parent_id)) {
+      nodes.get(folder.parent_id)!.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const sort = (list: FolderTreeNode<T>[]) => {
+    list.sort((a, b) => a.folder.name.localeCompare(b.folder.name));
+    list.forEach(node => sort(node.children));
+  };
+  sort(roots);
+  return roots;
+}
+
+// Number of documents in each folder, sub-folders included
+export function countDocumentsRecursively(
+  folders: FolderLike[],
+  documents: { folder_id: string | null }[],
+): Map<string, number> {
+  const parentOf = new Map(folders.map(f => [f.id, f.parent_id]));
+  const counts = new Map<string, number>();
+
+  for (const doc of documents) {
+    const seen = new Set<string>();
+    let folderId = doc.folder_id;
+    while (folderId && parentOf.has(folderId) && !seen.has(folderId)) {
+      seen.add(folderId);
+      counts.set(folderId, (counts.get(folderId) ?? 0) + 1);
+      folderId = parentOf.get(folderId) ?? null;
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,37 @@
+export interface TreeMessage {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+}
+
+const byCreation = (a: TreeMessage, b: TreeMessage) => a.created_at.localeCompare(b.created_at);
+
+// Messages sharing the parent of the given one, oldest first
+export function getSiblings<T extends TreeMessage>(messages: T[], message: T): T[] {
+  return messages.filter(m => m.parent_id === message.parent_id).sort(byCreation);
+}
+
+// Follows the newest reply down to a leaf, the branch opened when switching
+export function getLatestLeaf<T extends TreeMessage>(messages: T[], fromId: string): T | undefined {
+  let current = messages.find(m => m.id === fromId);
+  while (current) {
+    const parentId: string = current.id;
+    const children = messages.filter(m => m.parent_id === parentId).sort(byCreation);
+    if (children.length === 0) break;
+    current = children[children.length - 1];
+  }
+  return current;
+}
+
+// Root-to-leaf branch ending at leafId; the newest message when it is missing
+export function getBranch<T extends TreeMessage>(messages: T[], leafId: string | null): T[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  let current = (leafId && byId.get(leafId)) || [...messages].sort(byCreation).pop();
+  const branch: T[] = [];
+
+  while (current && !branch.includes(current)) {
+    branch.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return branch;
+}
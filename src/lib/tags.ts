@@ -0,0 +1,50 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Tag {
+  id: string;
+  name: string;
+}
+
+// Names are unique regardless of case; an existing tag is returned as is
+export async function createTag(name: string): Promise<Tag> {
+  const { data, error } = await supabase
+    .from('tags')
+    .insert({ name: name.trim() })
+    .select('id, name')
+    .single();
+
+  if (error?.code === '23505') {
+    const { data: existing, error: existingError } = await supabase
+      .from('tags')
+      .select('id, name')
+      .ilike('name', name.trim().replace(/[\\%_]/g, '\\$&'))
+      .single();
+    if (existingError) throw existingError;
+    return existing;
+  }
+  if (error) throw error;
+  return data;
+}
+
+export async function addDocumentTag(documentId: string, tagId: string): Promise<void> {
+  const { error } = await supabase.from('document_tags').insert({ document_id: documentId, tag_id: tagId });
+  // Already tagged, e.g. from another tab
+  if (error && error.code !== '23505') throw error;
+}
+
+export async function removeDocumentTag(documentId: string, tagId: string): Promise<void> {
+  const { error } = await supabase
+    .from('document_tags')
+    .delete()
+    .eq('document_id', documentId)
+    .eq('tag_id', tagId);
+  if (error) throw error;
+}
+
+// Tags in display order, skipping ids of tags that no longer exist
+export function resolveTags(tagsById: Map<string, Tag>, tagIds: string[] | undefined): Tag[] {
+  return (tagIds ?? [])
+    .map(id => tagsById.get(id))
+    .filter((tag): tag is Tag => !!tag)
+    .sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+}
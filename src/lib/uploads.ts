@@ -0,0 +1,299 @@
+import * as tus from 'tus-js-client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Sha256 } from '@/lib/sha256';
+
+const ACCEPTED_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'text/markdown',
+];
+
+const ACCEPTED_FILE_EXTENSIONS = ['pdf', 'docx', 'txt', 'csv', 'json', 'md'];
+
+export const ACCEPTED_EXTENSIONS = ACCEPTED_FILE_EXTENSIONS.map(ext => `.${ext}`).join(',');
+
+// 'local' runs the in-repo ingest-document function, anything else the n8n workflow
+const INGESTION_BACKEND = import.meta.env.VITE_INGESTION_BACKEND === 'local' ? 'local' : 'n8n';
+
+// Supabase Storage requires 6MB chunks for resumable uploads
+const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Files are hashed slice by slice so large ones never sit in memory whole
+const HASH_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export function getFileExtension(fileName: string): string {
+  return fileName.split('.').pop()?.toLowerCase() || '';
+}
+
+export function isAcceptedFile(file: File): boolean {
+  return ACCEPTED_TYPES.includes(file.type) || ACCEPTED_FILE_EXTENSIONS.includes(getFileExtension(file.name));
+}
+
+interface ResumableUploadHandlers {
+  onProgress: (progress: number) => void;
+  onSuccess: () => void;
+  onError: (error: Error) => void;
+}
+
+// Resumable (tus) upload to the documents bucket. A previous interrupted
+// upload of the same file is resumed, keeping its original storage path,
+// which is returned alongside the upload once it has started.
+export async function startResumableUpload(
+  file: File,
+  filePath: string,
+  handlers: ResumableUploadHandlers
+): Promise<{ upload: tus.Upload; filePath: string }> {
+  const upload = new tus.Upload(file, {
+    endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+    retryDelays: [0, 3000, 5000, 10000, 20000],
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    metadata: {
+      bucketName: 'documents',
+      objectName: filePath,
+      contentType: file.type || 'application/octet-stream',
+      cacheControl: '3600',
+    },
+    // Long uploads can outlive the access token, so it is read per request
+    onBeforeRequest: async (req) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      req.setHeader('authorization', `Bearer ${session?.access_token ?? ''}`);
+      req.setHeader('apikey', import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    },
+    onProgress: (bytesUploaded, bytesTotal) => {
+      handlers.onProgress(bytesTotal ? Math.round((bytesUploaded / bytesTotal) * 100) : 0);
+    },
+    onSuccess: () => handlers.onSuccess(),
+    onError: (error) => handlers.onError(error),
+  });
+
+  let resolvedPath = filePath;
+  const previousUploads = await upload.findPreviousUploads();
+  const previous = previousUploads.find(p => p.metadata.objectName);
+  if (previous) {
+    resolvedPath = previous.metadata.objectName;
+    upload.options.metadata = { ...upload.options.metadata, objectName: resolvedPath };
+    upload.resumeFromPreviousUpload(previous);
+  }
+
+  upload.start();
+  return { upload, filePath: resolvedPath };
+}
+
+// SHA-256 of the file content, hex encoded
+export async function computeFileHash(file: File): Promise<string> {
+  const hash = new Sha256();
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    const chunk = await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer();
+    hash.update(new Uint8Array(chunk));
+  }
+  return hash.digest();
+}
+
+// A document with the same content, among those the caller can access. id is
+// null for a file earlier in the same upload.
+export interface DuplicateDocument {
+  id: string | null;
+  name: string;
+}
+
+export async function findDuplicates(hashes: string[]): Promise<Map<string, DuplicateDocument>> {
+  const { data, error } = await supabase.rpc('find_documents_by_hash', { hashes });
+  if (error) throw error;
+  return new Map((data || []).map(row => [row.content_hash, { id: row.id, name: row.name }]));
+}
+
+// Creates the document row for an uploaded file and starts its ingestion
+export async function createDocument(
+  file: File,
+  filePath: string,
+  userId: string,
+  folderId: string | null,
+  // Stored for duplicate detection; left empty when keeping a duplicate
+  contentHash: string | null
+): Promise<string> {
+  const { data: document, error: dbError } = await supabase
+    .from('documents')
+    .insert({
+      user_id: userId,
+      name: file.name,
+      file_type: getFileExtension(file.name) || 'unknown',
+      file_size: file.size,
+      file_path: filePath,
+      folder_id: folderId,
+      content_hash: contentHash,
+      status: 'pending',
+      ingestion_backend: INGESTION_BACKEND,
+    })
+    .select('id')
+    .single();
+
+  if (dbError) {
+    // Unique violation: the same file was uploaded since the duplicate check
+    if (dbError.code === '23505') throw new Error('Un document identique existe déjà');
+    throw dbError;
+  }
+
+  // Trigger ingestion via Edge Function
+  try {
+    if (INGESTION_BACKEND === 'local') {
+      await supabase.functions.invoke('ingest-document', {
+        body: { document_id: document.id },
+      });
+    } else {
+      const formData = new FormData();
+      formData.append('data', file);
+      formData.append('file_path', filePath);
+      formData.append('file_name', file.name);
+      formData.append('document_id', document.id);
+
+      await supabase.functions.invoke('n8n-upload', {
+        body: formData,
+      });
+    }
+  } catch (webhookError) {
+    // Log but don't fail the upload
+    console.error('Error triggering ingestion:', webhookError);
+  }
+
+  return document.id;
+}
+
+// A file to upload with the directories it sits in, relative to the drop
+export interface UploadSource {
+  file: File;
+  path: string[];
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns directory content in batches until an empty one
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry, path: string[], sources: UploadSource[]) {
+  // Skip system files such as .DS_Store
+  if (entry.name.startsWith('.')) return;
+
+  if (entry.isFile) {
+    sources.push({ file: await readEntryFile(entry as FileSystemFileEntry), path });
+  } else if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    for (const child of children) {
+      await collectEntry(child, [...path, entry.name], sources);
+    }
+  }
+}
+
+// Files and directory trees from a drop event. The entries must be taken
+// synchronously in the event handler, before they are read asynchronously.
+export function readDroppedFiles(dataTransfer: DataTransfer): Promise<UploadSource[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+  const files = Array.from(dataTransfer.files);
+
+  return (async () => {
+    // Browsers without the entries API only expose the top-level files
+    if (entries.some(entry => !entry)) {
+      return files.map(file => ({ file, path: [] }));
+    }
+    const sources: UploadSource[] = [];
+    for (const entry of entries) {
+      await collectEntry(entry as FileSystemEntry, [], sources);
+    }
+    return sources;
+  })();
+}
+
+// Files picked through a directory input carry their relative path
+export function fromFileList(files: FileList): UploadSource[] {
+  return Array.from(files)
+    .filter(file => !file.name.startsWith('.'))
+    .map(file => ({ file, path: file.webkitRelativePath.split('/').slice(0, -1) }));
+}
+
+// Finds or creates the folders matching each directory of the sources under
+// the target folder, and returns the folder of every directory path. Without
+// the right to create folders, files of missing directories land in the
+// closest existing parent and those directories are reported as skipped.
+export async function resolveFolderTree(
+  sources: UploadSource[],
+  rootFolderId: string | null,
+  userId: string,
+  canCreateFolders: boolean
+): Promise<{ folderIds: Map<string, string | null>; skipped: number }> {
+  const folderIds = new Map<string, string | null>([['', rootFolderId]]);
+  let skipped = 0;
+
+  const directories = [...new Set(sources.flatMap(({ path }) => path.map((_, i) => path.slice(0, i + 1).join('/'))))]
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+
+  for (const directory of directories) {
+    const segments = directory.split('/');
+    const name = segments[segments.length - 1];
+    const parentId = folderIds.get(segments.slice(0, -1).join('/')) ?? null;
+
+    let query = supabase.from('folders').select('id').eq('name', name).limit(1);
+    query = parentId ? query.eq('parent_id', parentId) : query.is('parent_id', null);
+    const { data: existing } = await query.maybeSingle();
+
+    if (existing) {
+      folderIds.set(directory, existing.id);
+    } else if (canCreateFolders) {
+      const { data: created, error } = await supabase
+        .from('folders')
+        .insert([{ name, user_id: userId, created_by: userId, parent_id: parentId }])
+        .select('id')
+        .single();
+      if (error) throw error;
+      folderIds.set(directory, created.id);
+    } else {
+      folderIds.set(directory, parentId);
+      skipped += 1;
+    }
+  }
+
+  return { folderIds, skipped };
+}
+
+// Makes an uploaded file the new current version of a document; the server
+// re-ingests it in place of the previous version
+export async function addDocumentVersion(
+  file: File,
+  filePath: string,
+  documentId: string,
+  contentHash: string | null
+): Promise<number> {
+  const { data, error } = await supabase.functions.invoke('upload-document-version', {
+    body: {
+      document_id: documentId,
+      file_path: filePath,
+      file_name: file.name,
+      file_size: file.size,
+      content_hash: contentHash,
+    },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError && error.context.status === 409) {
+      throw new Error('Un document identique existe déjà');
+    }
+    throw error;
+  }
+  return data.version;
+}
@@ -1,15 +1,29 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePermissions } from '@/contexts/PermissionsContext';
 import AppLayout from '@/components/layout/AppLayout';
 import ChatMessage from '@/components/chat/ChatMessage';
 import InputBar from '@/components/chat/InputBar';
 import ConversationSidebar from '@/components/chat/ConversationSidebar';
+import ChatScopePicker, { type ChatScope } from '@/components/chat/ChatScopePicker';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { useRealtimeRows } from '@/hooks/useRealtimeRows';
 import { MessageSquare, Bot, Loader2, Menu, Download } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { streamChat, type Citation } from '@/lib/chatStream';
+import { getBranch, getLatestLeaf, getSiblings } from '@/lib/messageTree';
+import { deleteFeedback, saveFeedback, type FeedbackRating, type MessageFeedback } from '@/lib/feedback';
+import {
+  createConversationFolder,
+  deleteConversationFolder,
+  renameConversationFolder,
+  updateConversation,
+  type ConversationFolder,
+  type ConversationUpdate,
+} from '@/lib/conversations';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import {
   DropdownMenu,
@@ -20,25 +34,64 @@ import {
 
 interface Message {
   id: string;
+  parent_id: string | null;
+  created_at: string;
   role: 'user' | 'assistant';
   content: string;
+  citations?: Citation[];
+  feedback?: MessageFeedback | null;
 }
 
+const MAX_MESSAGE_LENGTH = 4000;
+
 interface Conversation {
   id: string;
   title: string;
+  title_locked: boolean;
   created_at: string;
   updated_at: string;
+  folder_id: string | null;
+  pinned_at: string | null;
+  archived_at: string | null;
+  scope_folder_ids: string[];
+  scope_document_ids: string[];
+  scope_version_ids: string[];
+  scope_tag_ids: string[];
 }
 
+const EMPTY_SCOPE: ChatScope = { folderIds: [], documentIds: [], versionIds: [], tagIds: [] };
+
 export default function Chat() {
   const { user } = useAuth();
   const { canExportConversations } = usePermissions();
+  const [searchParams] = useSearchParams();
   const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [conversationFolders, setConversationFolders] = useState<ConversationFolder[]>([]);
+  // Deep links (e.g. from a document page) open a conversation directly
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(
+    searchParams.get('conversation')
+  );
+  // Every message of the conversation; one branch of the tree is shown
   const [messages, setMessages] = useState<Message[]>([]);
+  // Last message of the shown branch, the newest message when null
+  const [leafId, setLeafId] = useState<string | null>(null);
+  // A version link from the document history, or a tag selection from the
+  // documents page, starts a conversation about it
+  const [scope, setScope] = useState<ChatScope>(() => {
+    const versionId = searchParams.get('version');
+    const tagIds = searchParams.get('tag')?.split(',').filter(Boolean) ?? [];
+    return {
+      ...EMPTY_SCOPE,
+      versionIds: versionId ? [versionId] : [],
+      tagIds,
+    };
+  });
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // A conversation created by the first message has nothing to load
+  const createdConversationRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -47,39 +100,63 @@ export default function Chat() {
     if (!user) return;
     
     const loadConversations = async () => {
-      const { data, error } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('updated_at', { ascending: false });
+      const [conversationsResult, foldersResult] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('updated_at', { ascending: false }),
+        supabase
+          .from('conversation_folders')
+          .select('id, name')
+          .eq('user_id', user.id),
+      ]);
       
-      if (!error && data) {
-        setConversations(data);
+      if (!conversationsResult.error && conversationsResult.data) {
+        setConversations(conversationsResult.data);
+      }
+      if (!foldersResult.error && foldersResult.data) {
+        setConversationFolders(foldersResult.data);
       }
     };
     
     loadConversations();
   }, [user]);
 
+  // Generated titles arrive after the first answer, and other tabs may
+  // rename, file or delete conversations
+  useRealtimeRows('conversations', setConversations, {
+    filter: user ? `user_id=eq.${user.id}` : undefined,
+    enabled: !!user,
+  });
+
   // Load messages when conversation changes
   useEffect(() => {
+    setLeafId(null);
     if (!activeConversationId || !user) {
       setMessages([]);
       return;
     }
+    if (activeConversationId === createdConversationRef.current) return;
     
     const loadMessages = async () => {
       const { data, error } = await supabase
         .from('chat_messages')
-        .select('*')
+        .select('*, message_citations(*), message_feedback(rating, reason, correction)')
         .eq('conversation_id', activeConversationId)
         .order('created_at', { ascending: true });
       
       if (!error && data) {
         setMessages(data.map(m => ({
           id: m.id,
+          parent_id: m.parent_id,
+          created_at: m.created_at,
           role: m.role as 'user' | 'assistant',
           content: m.content,
+          citations: [...m.message_citations].sort((a, b) => a.position - b.position),
+          feedback: m.message_feedback[0]
+            ? { ...m.message_feedback[0], rating: m.message_feedback[0].rating as FeedbackRating }
+            : null,
         })));
       }
     };
@@ -87,9 +164,24 @@ export default function Chat() {
     loadMessages();
   }, [activeConversationId, user]);
 
+  // Sync the scope picker with the selected conversation
+  useEffect(() => {
+    const conversation = conversations.find(c => c.id === activeConversationId);
+    if (conversation) {
+      setScope({
+        folderIds: conversation.scope_folder_ids,
+        documentIds: conversation.scope_document_ids,
+        versionIds: conversation.scope_version_ids,
+        tagIds: conversation.scope_tag_ids,
+      });
+    }
+  }, [activeConversationId, conversations]);
+
+  const branch = useMemo(() => getBranch(messages, leafId), [messages, leafId]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [branch]);
 
   const createConversation = async (firstMessage: string): Promise<string | null> => {
     if (!user) return null;
@@ -98,7 +190,14 @@ export default function Chat() {
     
     const { data, error } = await supabase
       .from('conversations')
-      .insert({ user_id: user.id, title })
+      .insert({
+        user_id: user.id,
+        title,
+        scope_folder_ids: scope.folderIds,
+        scope_document_ids: scope.documentIds,
+        scope_version_ids: scope.versionIds,
+        scope_tag_ids: scope.tagIds,
+      })
       .select()
       .single();
     
@@ -107,122 +206,259 @@ export default function Chat() {
       return null;
     }
     
-    setConversations(prev => [data, ...prev]);
+    // Realtime may already have delivered the new row
+    setConversations(prev => (prev.some(c => c.id === data.id) ? prev : [data, ...prev]));
+    createdConversationRef.current = data.id;
     setActiveConversationId(data.id);
     return data.id;
   };
 
-  const saveMessage = async (conversationId: string, role: 'user' | 'assistant', content: string) => {
-    if (!user) return;
+  const saveMessage = async (
+    conversationId: string,
+    role: 'user' | 'assistant',
+    content: string,
+    parentId: string | null,
+  ): Promise<Message | null> => {
+    if (!user) return null;
     
-    await supabase.from('chat_messages').insert({
-      conversation_id: conversationId,
-      user_id: user.id,
-      role,
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .insert({
+        conversation_id: conversationId,
+        user_id: user.id,
+        parent_id: parentId,
+        role,
+        content,
+      })
+      .select('id, parent_id, created_at')
+      .single();
+
+    if (error || !data) return null;
+    return { ...data, role, content };
+  };
+
+  // Validate message length client-side
+  const checkQuestion = (content: string) => {
+    if (content.length <= MAX_MESSAGE_LENGTH) return true;
+    toast({
+      title: 'Erreur',
+      description: `Message trop long. Maximum ${MAX_MESSAGE_LENGTH} caractères.`,
+      variant: 'destructive',
+    });
+    return false;
+  };
+
+  // Store a question as a reply to parentId and show its branch
+  const askQuestion = async (convId: string, content: string, parentId: string | null): Promise<Message | null> => {
+    const question = await saveMessage(convId, 'user', content, parentId);
+    if (!question) {
+      toast({ title: 'Erreur', description: 'Impossible d\'envoyer le message', variant: 'destructive' });
+      return null;
+    }
+
+    setMessages(prev => [...prev, question]);
+    setLeafId(question.id);
+    return question;
+  };
+
+  // Stream an answer to the question, given the branch above it. The function
+  // stores it with its sources as a new reply: regenerating adds a sibling to
+  // the previous answers.
+  // Callers set isLoading beforehand, it is cleared once done.
+  const generateAnswer = async (convId: string, question: Message, history: Message[]) => {
+    const assistantId = `pending-${Date.now()}`;
+    const pending = (content: string): Message => ({
+      id: assistantId,
+      parent_id: question.id,
+      created_at: new Date().toISOString(),
+      role: 'assistant',
       content,
     });
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let streamedContent = '';
+
+    // The pending answer is replaced by the stored one
+    const finish = (saved: Message | null, fallback: Message) => {
+      const message = saved ?? fallback;
+      setMessages(prev =>
+        prev.some(m => m.id === assistantId)
+          ? prev.map(m => (m.id === assistantId ? message : m))
+          : [...prev, message]
+      );
+      setLeafId(message.id);
+    };
+
+    try {
+      const { output, citations, message } = await streamChat({
+        body: {
+          text: question.content,
+          conversation_id: convId,
+          question_id: question.id,
+          // Conversation history for n8n context, along the shown branch
+          conversation_history: history.map(m => ({ role: m.role, content: m.content })).slice(-50),
+        },
+        signal: controller.signal,
+        onToken: (token) => {
+          streamedContent += token;
+          setStreamingMessageId(assistantId);
+          setMessages(prev =>
+            prev.some(m => m.id === assistantId)
+              ? prev.map(m => (m.id === assistantId ? { ...m, content: streamedContent } : m))
+              : [...prev, pending(streamedContent)]
+          );
+          setLeafId(assistantId);
+        },
+      });
+
+      const content = output || 'Je n\'ai pas pu générer de réponse.';
+      // Without a stored answer the text is kept, its sources are not
+      const saved = message
+        ? { ...message, role: 'assistant' as const, content, citations }
+        : await saveMessage(convId, 'assistant', content, question.id);
+      finish(saved, { ...pending(content), citations });
+      
+      // Update conversation timestamp
+      const updatedAt = new Date().toISOString();
+      await supabase
+        .from('conversations')
+        .update({ updated_at: updatedAt })
+        .eq('id', convId);
+      setConversations(prev => prev.map(c => (c.id === convId ? { ...c, updated_at: updatedAt } : c)));
+        
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Generation stopped by the user: keep what was already received
+        if (streamedContent) {
+          const saved = await saveMessage(convId, 'assistant', streamedContent, question.id);
+          finish(saved, pending(streamedContent));
+        }
+      } else {
+        toast({
+          title: 'Erreur',
+          description: (error as Error).message || 'Impossible de contacter le chatbot',
+          variant: 'destructive',
+        });
+        // The question stays, with a retry action
+        setMessages(prev => prev.filter(m => m.id !== assistantId));
+        setLeafId(question.id);
+      }
+    }
+
+    abortControllerRef.current = null;
+    setStreamingMessageId(null);
+    setIsLoading(false);
   };
 
   const handleSend = async (content: string) => {
-    if (!user) return;
+    if (!user || isLoading || !checkQuestion(content)) return;
+
+    setIsLoading(true);
 
     let convId = activeConversationId;
     
     // Create new conversation if needed
     if (!convId) {
       convId = await createConversation(content);
-      if (!convId) return;
     }
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content,
-    };
+    const history = branch;
+    const question = convId && await askQuestion(convId, content, history[history.length - 1]?.id ?? null);
+    if (convId && question) {
+      await generateAnswer(convId, question, history);
+    } else {
+      setIsLoading(false);
+    }
+  };
 
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
-    
-    // Save user message
-    await saveMessage(convId, 'user', content);
+  // Answer the last question of the branch again, as a new branch
+  const handleRegenerate = async () => {
+    const last = branch[branch.length - 1];
+    if (!activeConversationId || !last || isLoading) return;
 
-    try {
-      // Build conversation history for n8n context
-      const conversationHistory = messages.map(m => ({
-        role: m.role,
-        content: m.content,
-      }));
-
-      // Validate message length client-side
-      const MAX_MESSAGE_LENGTH = 4000;
-      if (content.length > MAX_MESSAGE_LENGTH) {
-        throw new Error(`Message trop long. Maximum ${MAX_MESSAGE_LENGTH} caractères.`);
-      }
+    const question = last.role === 'user' ? last : branch[branch.length - 2];
+    if (!question) return;
+    setIsLoading(true);
+    await generateAnswer(activeConversationId, question, branch.slice(0, branch.indexOf(question)));
+  };
 
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      const response = await supabase.functions.invoke('n8n-chat', {
-        body: {
-          text: content,
-          conversation_history: conversationHistory.slice(-50), // Limit history
-        },
-      });
+  // An edited question forks a new branch from the same point
+  const handleEdit = async (messageId: string, content: string) => {
+    const index = branch.findIndex(m => m.id === messageId);
+    if (!activeConversationId || index === -1 || isLoading || !checkQuestion(content)) return;
 
-      if (response.error) {
-        throw new Error(response.error.message || 'Erreur de communication avec le chatbot');
-      }
+    setIsLoading(true);
+    const history = branch.slice(0, index);
+    const question = await askQuestion(activeConversationId, content, branch[index].parent_id);
+    if (question) {
+      await generateAnswer(activeConversationId, question, history);
+    } else {
+      setIsLoading(false);
+    }
+  };
 
-      const data = response.data;
-      
-      let responseContent = '';
-      if (typeof data === 'string') {
-        responseContent = data;
-      } else if (data.output) {
-        responseContent = data.output;
-      } else if (data.text) {
-        responseContent = data.text;
-      } else if (data.message) {
-        responseContent = data.message;
-      } else if (data.response) {
-        responseContent = data.response;
-      } else if (Array.isArray(data) && data.length > 0) {
-        responseContent = data[0].output || data[0].text || data[0].message || JSON.stringify(data[0]);
+  const handleFeedback = async (messageId: string, feedback: MessageFeedback | null) => {
+    try {
+      if (feedback) {
+        await saveFeedback(messageId, feedback);
       } else {
-        responseContent = JSON.stringify(data);
+        await deleteFeedback(messageId);
       }
-      
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: responseContent || 'Je n\'ai pas pu générer de réponse.',
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
-      
-      // Save assistant message
-      await saveMessage(convId, 'assistant', assistantMessage.content);
-      
-      // Update conversation timestamp
-      await supabase
-        .from('conversations')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', convId);
-        
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'Erreur',
-        description: error.message || 'Impossible de contacter le chatbot',
+        description: (error as Error).message || 'Impossible d\'enregistrer votre avis',
         variant: 'destructive',
       });
-      setMessages(prev => prev.filter(m => m.id !== userMessage.id));
+      throw error;
     }
 
-    setIsLoading(false);
+    setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, feedback } : m)));
+    if (feedback?.rating === 'down') {
+      toast({ title: 'Merci pour votre retour', description: 'Il sera examiné par un administrateur.' });
+    }
+  };
+
+  const handleSwitchBranch = (message: Message, offset: number) => {
+    const siblings = getSiblings(messages, message);
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + offset];
+    if (!target) return;
+    setLeafId(getLatestLeaf(messages, target.id)?.id ?? target.id);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleScopeChange = async (newScope: ChatScope) => {
+    setScope(newScope);
+    if (!activeConversationId) return;
+
+    const update = {
+      scope_folder_ids: newScope.folderIds,
+      scope_document_ids: newScope.documentIds,
+      scope_version_ids: newScope.versionIds,
+      scope_tag_ids: newScope.tagIds,
+    };
+    const { error } = await supabase
+      .from('conversations')
+      .update(update)
+      .eq('id', activeConversationId);
+
+    if (error) {
+      toast({ title: 'Erreur', description: 'Impossible de modifier la portée', variant: 'destructive' });
+      return;
+    }
+
+    setConversations(prev => prev.map(c => (c.id === activeConversationId ? { ...c, ...update } : c)));
   };
 
   const handleNewConversation = () => {
+    createdConversationRef.current = null;
     setActiveConversationId(null);
     setMessages([]);
+    setScope(EMPTY_SCOPE);
     setSidebarOpen(false);
   };
 
@@ -238,18 +474,81 @@ export default function Chat() {
     if (activeConversationId === id) {
       setActiveConversationId(null);
       setMessages([]);
+      setScope(EMPTY_SCOPE);
     }
     
     toast({ title: 'Conversation supprimée' });
   };
 
+  // Rename, pin, archive or file a conversation
+  const handleUpdateConversation = async (id: string, update: ConversationUpdate) => {
+    try {
+      await updateConversation(id, update);
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de modifier la conversation',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+
+    setConversations(prev => prev.map(c => (c.id === id ? { ...c, ...update } : c)));
+  };
+
+  const handleCreateFolder = async (name: string) => {
+    try {
+      const folder = await createConversationFolder(name);
+      setConversationFolders(prev => [...prev, folder]);
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de créer le dossier',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  };
+
+  const handleRenameFolder = async (id: string, name: string) => {
+    try {
+      await renameConversationFolder(id, name);
+      setConversationFolders(prev => prev.map(f => (f.id === id ? { ...f, name } : f)));
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de renommer le dossier',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  };
+
+  const handleDeleteFolder = async (id: string) => {
+    try {
+      await deleteConversationFolder(id);
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de supprimer le dossier',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setConversationFolders(prev => prev.filter(f => f.id !== id));
+    setConversations(prev => prev.map(c => (c.folder_id === id ? { ...c, folder_id: null } : c)));
+    toast({ title: 'Dossier supprimé', description: 'Ses conversations ont été conservées.' });
+  };
+
   const handleSelectConversation = (id: string) => {
+    createdConversationRef.current = null;
     setActiveConversationId(id);
     setSidebarOpen(false);
   };
 
   const handleExportConversation = (format: 'json' | 'txt' | 'md') => {
-    if (!activeConversationId || messages.length === 0) return;
+    if (!activeConversationId || branch.length === 0) return;
 
     const conversation = conversations.find(c => c.id === activeConversationId);
     const title = conversation?.title || 'conversation';
@@ -263,17 +562,21 @@ export default function Chat() {
       content = JSON.stringify({
         title: conversation?.title,
         exported_at: new Date().toISOString(),
-        messages: messages.map(m => ({ role: m.role, content: m.content })),
+        messages: branch.map(m => ({
+          role: m.role,
+          content: m.content,
+          ...(m.citations?.length ? { sources: m.citations } : {}),
+        })),
       }, null, 2);
       filename = `${title}-${timestamp}.json`;
       mimeType = 'application/json';
     } else if (format === 'txt') {
-      content = messages.map(m => `[${m.role.toUpperCase()}]\n${m.content}`).join('\n\n---\n\n');
+      content = branch.map(m => `[${m.role.toUpperCase()}]\n${m.content}`).join('\n\n---\n\n');
       filename = `${title}-${timestamp}.txt`;
       mimeType = 'text/plain';
     } else {
       content = `# ${conversation?.title || 'Conversation'}\n\n` +
-        messages.map(m => `**${m.role === 'user' ? 'Vous' : 'Assistant'}:**\n\n${m.content}`).join('\n\n---\n\n');
+        branch.map(m => `**${m.role === 'user' ? 'Vous' : 'Assistant'}:**\n\n${m.content}`).join('\n\n---\n\n');
       filename = `${title}-${timestamp}.md`;
       mimeType = 'text/markdown';
     }
@@ -292,10 +595,15 @@ export default function Chat() {
   const sidebarContent = (
     <ConversationSidebar
       conversations={conversations}
+      folders={conversationFolders}
       activeId={activeConversationId}
       onSelect={handleSelectConversation}
       onNew={handleNewConversation}
       onDelete={handleDeleteConversation}
+      onUpdate={handleUpdateConversation}
+      onCreateFolder={handleCreateFolder}
+      onRenameFolder={handleRenameFolder}
+      onDeleteFolder={handleDeleteFolder}
     />
   );
 
@@ -333,7 +641,7 @@ export default function Chat() {
               </div>
 
               {/* Export button */}
-              {canExportConversations && activeConversationId && messages.length > 0 && (
+              {canExportConversations && activeConversationId && branch.length > 0 && (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button variant="outline" size="sm">
@@ -360,7 +668,7 @@ export default function Chat() {
           {/* Messages Area */}
           <div className="flex-1 overflow-auto">
             <div className="max-w-4xl mx-auto px-4 md:px-8 py-6">
-              {messages.length === 0 ? (
+              {branch.length === 0 ? (
                 <div className="h-full flex items-center justify-center py-20">
                   <Card className="border-border/50 bg-muted/30 max-w-md w-full">
                     <CardContent className="py-12 text-center">
@@ -387,10 +695,33 @@ export default function Chat() {
                 </div>
               ) : (
                 <div className="space-y-6">
-                  {messages.map(message => (
-                    <ChatMessage key={message.id} role={message.role} content={message.content} />
-                  ))}
-                  {isLoading && (
+                  {branch.map((message, index) => {
+                    const siblings = getSiblings(messages, message);
+                    const isLast = index === branch.length - 1;
+                    return (
+                      <ChatMessage
+                        key={message.id}
+                        role={message.role}
+                        content={message.content}
+                        citations={message.citations}
+                        isStreaming={message.id === streamingMessageId}
+                        disabled={isLoading}
+                        branch={siblings.length > 1 ? {
+                          index: siblings.findIndex(m => m.id === message.id),
+                          count: siblings.length,
+                          onPrevious: () => handleSwitchBranch(message, -1),
+                          onNext: () => handleSwitchBranch(message, 1),
+                        } : undefined}
+                        onEdit={message.role === 'user' ? (content) => handleEdit(message.id, content) : undefined}
+                        onRegenerate={isLast && !isLoading ? handleRegenerate : undefined}
+                        feedback={message.feedback}
+                        onFeedback={message.role === 'assistant' && !message.id.startsWith('pending-')
+                          ? (feedback) => handleFeedback(message.id, feedback)
+                          : undefined}
+                      />
+                    );
+                  })}
+                  {isLoading && !streamingMessageId && (
                     <div className="flex gap-4 animate-slide-up">
                       <div className="w-9 h-9 rounded-xl gradient-hero flex items-center justify-center">
                         <Bot className="w-4 h-4 text-primary-foreground" />
@@ -412,7 +743,13 @@ export default function Chat() {
           {/* Input Area */}
           <div className="border-t border-border bg-background/80 backdrop-blur-sm">
             <div className="max-w-4xl mx-auto px-4 md:px-8 py-4">
-              <InputBar onSend={handleSend} disabled={isLoading} />
+              <ChatScopePicker value={scope} onChange={handleScopeChange} disabled={isLoading} />
+              <InputBar
+                onSend={handleSend}
+                onStop={handleStop}
+                disabled={isLoading}
+                isStreaming={isLoading}
+              />
             </div>
           </div>
         </div>
@@ -1,13 +1,19 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { useRealtimeBroadcast, useRealtimeRows } from '@/hooks/useRealtimeRows';
 import AppLayout from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { FileText, MessageSquare, Upload, ArrowRight, CheckCircle, Clock, AlertCircle } from 'lucide-react';
 
+interface DocumentStatus {
+  id: string;
+  status: string;
+}
+
 interface Stats {
   totalDocuments: number;
   ingestedDocuments: number;
@@ -17,31 +23,43 @@ interface Stats {
 
 export default function Dashboard() {
   const { user } = useAuth();
-  const [stats, setStats] = useState<Stats | null>(null);
+  const [documents, setDocuments] = useState<DocumentStatus[]>([]);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    async function fetchStats() {
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from('documents')
-        .select('status')
-        .eq('user_id', user.id);
-
-      if (!error && data) {
-        setStats({
-          totalDocuments: data.length,
-          ingestedDocuments: data.filter(d => d.status === 'ingested').length,
-          processingDocuments: data.filter(d => d.status === 'processing' || d.status === 'pending').length,
-          errorDocuments: data.filter(d => d.status === 'error').length,
-        });
-      }
-      setLoading(false);
+  const fetchStats = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, status')
+      .eq('user_id', user.id);
+
+    if (!error && data) {
+      setDocuments(data);
     }
+    setLoading(false);
+  }, [user]);
 
+  useEffect(() => {
     fetchStats();
-  }, [user]);
+  }, [fetchStats]);
+
+  // Counters follow ingestion progress without reloading the page
+  useRealtimeRows('documents', setDocuments, {
+    filter: user ? `user_id=eq.${user.id}` : undefined,
+    enabled: !!user,
+  });
+
+  // Trashing and restoring do not reach the row sync, as trashed rows are
+  // hidden by RLS: they come as broadcasts and the counters are reloaded
+  useRealtimeBroadcast('trash', fetchStats, { enabled: !!user });
+
+  const stats = useMemo<Stats | null>(() => loading ? null : {
+    totalDocuments: documents.length,
+    ingestedDocuments: documents.filter(d => d.status === 'ingested').length,
+    processingDocuments: documents.filter(d => d.status === 'processing' || d.status === 'pending').length,
+    errorDocuments: documents.filter(d => d.status === 'error').length,
+  }, [documents, loading]);
 
   const firstName = user?.user_metadata?.full_name?.split(' ')[0] || 'utilisateur';
 
@@ -0,0 +1,459 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { useRealtimeChanges } from '@/hooks/useRealtimeRows';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import AppLayout from '@/components/layout/AppLayout';
+import DocumentPreview from '@/components/documents/DocumentPreview';
+import DocumentStatusBadge from '@/components/documents/DocumentStatusBadge';
+import DocumentMetadataDialog from '@/components/documents/DocumentMetadataDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { DOCUMENT_LANGUAGES, updateDocumentMetadata, type DocumentMetadata } from '@/lib/documents';
+import { ACCEPTED_EXTENSIONS } from '@/lib/uploads';
+import { cn, formatFileSize } from '@/lib/utils';
+import { ChevronLeft, Download, FileUp, FileX, Folder, History, MessageSquare, Pencil } from 'lucide-react';
+
+interface DocumentDetails {
+  id: string;
+  name: string;
+  file_type: string;
+  file_size: number;
+  file_path: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  page_count: number | null;
+  chunk_count: number | null;
+  error_message: string | null;
+  ingestion_backend: string;
+  ingestion_attempts: number;
+  current_version: number;
+  description: string | null;
+  tags: string[];
+  language: string | null;
+  effective_date: string | null;
+  folders: { id: string; name: string } | null;
+}
+
+interface DocumentVersion {
+  id: string;
+  version_number: number;
+  file_name: string;
+  file_path: string;
+  file_type: string;
+  file_size: number;
+  created_at: string;
+}
+
+interface Uploader {
+  full_name: string | null;
+  email: string | null;
+}
+
+interface CitingConversation {
+  id: string;
+  title: string;
+  citationCount: number;
+}
+
+// Signed URLs are only needed while the page is open
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export default function DocumentDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { canUploadDocuments, canRenameDocuments } = usePermissions();
+  const { toast } = useToast();
+  const { enqueueVersion } = useUploadQueue();
+  const [document, setDocument] = useState<DocumentDetails | null>(null);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [uploader, setUploader] = useState<Uploader | null>(null);
+  const [signedUrl, setSignedUrl] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<CitingConversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const versionInputRef = useRef<HTMLInputElement>(null);
+
+  const page = Number(searchParams.get('page')) || null;
+  // Earlier versions are previewed through ?version=<number>
+  const selectedVersion = versions.find(v => v.version_number === Number(searchParams.get('version')))
+    ?? versions.find(v => v.version_number === document?.current_version)
+    ?? null;
+  const selectedPath = selectedVersion?.file_path ?? document?.file_path;
+
+  const fetchDocument = useCallback(async (showLoading = true) => {
+    if (!id) return;
+    if (showLoading) setLoading(true);
+
+    const { data: doc } = await supabase
+      .from('documents')
+      .select('*, folders(id, name), document_tags(tags(name))')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!doc) {
+      setDocument(null);
+      setLoading(false);
+      return;
+    }
+
+    const [uploaderResult, versionsResult, citationsResult] = await Promise.all([
+      supabase.rpc('get_document_uploader', { _document_id: id }),
+      supabase
+        .from('document_versions')
+        .select('id, version_number, file_name, file_path, file_type, file_size, created_at')
+        .eq('document_id', id)
+        .order('version_number', { ascending: false }),
+      // Only the caller's own conversations are readable, so these are the
+      // places where they met this document
+      supabase
+        .from('message_citations')
+        .select('created_at, chat_messages!inner(conversation_id, conversations!inner(id, title))')
+        .eq('document_id', id)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    const byConversation = new Map<string, CitingConversation>();
+    for (const citation of citationsResult.data || []) {
+      const conversation = citation.chat_messages.conversations;
+      const existing = byConversation.get(conversation.id);
+      if (existing) {
+        existing.citationCount++;
+      } else {
+        byConversation.set(conversation.id, {
+          id: conversation.id,
+          title: conversation.title,
+          citationCount: 1,
+        });
+      }
+    }
+
+    const { document_tags, ...details } = doc;
+    setDocument({ ...details, tags: document_tags.map(dt => dt.tags.name).sort() } as DocumentDetails);
+    setVersions(versionsResult.data || []);
+    setUploader(uploaderResult.data?.[0] ?? null);
+    setConversations([...byConversation.values()]);
+    setLoading(false);
+  }, [id]);
+
+  useEffect(() => {
+    fetchDocument();
+  }, [fetchDocument]);
+
+  // Signed URL of the version being previewed
+  useEffect(() => {
+    if (!selectedPath) return;
+    supabase.storage
+      .from('documents')
+      .createSignedUrl(selectedPath, SIGNED_URL_TTL_SECONDS)
+      .then(({ data }) => setSignedUrl(data?.signedUrl ?? null));
+  }, [selectedPath]);
+
+  // Ingestion progress is merged; a new version reloads the history
+  useRealtimeChanges<Tables<'documents'>>('documents', (payload) => {
+    if (payload.eventType !== 'UPDATE') return;
+    if (payload.new.current_version !== document?.current_version) {
+      fetchDocument(false);
+      return;
+    }
+    setDocument(prev => prev && { ...prev, ...payload.new, folders: prev.folders });
+  }, { filter: `id=eq.${id}`, enabled: !!id });
+
+  const handleUpdateMetadata = async (metadata: DocumentMetadata) => {
+    if (!document) return;
+
+    try {
+      await updateDocumentMetadata(document.id, metadata);
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de modifier le document',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+
+    setDocument(prev => prev && { ...prev, ...metadata });
+    toast({ title: 'Document modifié' });
+  };
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="p-8 max-w-6xl mx-auto space-y-6">
+          <Skeleton className="h-10 w-1/2" />
+          <Skeleton className="h-[60vh] w-full" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (!document) {
+    return (
+      <AppLayout>
+        <div className="p-8 max-w-6xl mx-auto">
+          <Card className="border-dashed border-2 border-border/50">
+            <CardContent className="py-16 text-center">
+              <FileX className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">Document introuvable</h3>
+              <p className="text-muted-foreground mb-6">
+                Ce document a été supprimé ou ne vous est pas accessible.
+              </p>
+              <Button variant="outline" onClick={() => navigate('/documents')}>
+                Retour aux documents
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const metadata: { label: string; value: string }[] = [
+    { label: 'Type', value: document.file_type.toUpperCase() },
+    { label: 'Taille', value: formatFileSize(document.file_size) },
+    { label: 'Ajouté le', value: format(new Date(document.created_at), 'd MMMM yyyy à HH:mm', { locale: fr }) },
+    { label: 'Ajouté par', value: uploader?.full_name || uploader?.email || 'Inconnu' },
+    { label: 'Pipeline', value: document.ingestion_backend === 'local' ? 'Interne' : 'n8n' },
+    { label: 'Version', value: `v${document.current_version}` },
+  ];
+  if (document.language) {
+    metadata.push({ label: 'Langue', value: DOCUMENT_LANGUAGES[document.language] ?? document.language });
+  }
+  if (document.effective_date) {
+    metadata.push({ label: "Date d'effet", value: format(parseISO(document.effective_date), 'd MMMM yyyy', { locale: fr }) });
+  }
+  if (document.page_count != null) metadata.push({ label: 'Pages', value: String(document.page_count) });
+  if (document.chunk_count != null) metadata.push({ label: 'Extraits indexés', value: String(document.chunk_count) });
+  if (document.ingestion_attempts > 1) metadata.push({ label: 'Tentatives', value: String(document.ingestion_attempts) });
+
+  const isHistorical = !!selectedVersion && selectedVersion.version_number !== document.current_version;
+
+  const selectVersion = (versionNumber: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('page');
+    if (versionNumber === document.current_version) {
+      next.delete('version');
+    } else {
+      next.set('version', String(versionNumber));
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <AppLayout>
+      <div className="p-8 max-w-6xl mx-auto space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ChevronLeft className="w-5 h-5" />
+            </Button>
+            <div className="min-w-0">
+              <h1 className="text-2xl font-semibold truncate" title={document.name}>
+                {document.name}
+              </h1>
+              <p className="text-muted-foreground mt-1 flex items-center gap-1.5">
+                <Folder className="w-4 h-4" />
+                {document.folders?.name ?? 'Racine'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <DocumentStatusBadge status={document.status} />
+            {canRenameDocuments && (
+              <Button variant="outline" onClick={() => setEditOpen(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Modifier
+              </Button>
+            )}
+            {canUploadDocuments && (
+              <>
+                <input
+                  ref={versionInputRef}
+                  type="file"
+                  accept={ACCEPTED_EXTENSIONS}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) enqueueVersion(file, document.id);
+                    e.target.value = '';
+                  }}
+                />
+                <Button variant="outline" onClick={() => versionInputRef.current?.click()}>
+                  <FileUp className="w-4 h-4 mr-2" />
+                  Nouvelle version
+                </Button>
+              </>
+            )}
+            {signedUrl && (
+              <Button variant="outline" asChild>
+                <a href={signedUrl} download={selectedVersion?.file_name ?? document.name}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Télécharger
+                </a>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Preview */}
+          <Card className="border-border/50 lg:col-span-2">
+            <CardContent className="p-4 overflow-auto max-h-[80vh]">
+              {isHistorical && selectedVersion && (
+                <div className="flex items-center justify-between gap-4 mb-4 px-3 py-2 rounded-lg bg-warning/10 text-sm">
+                  <span>
+                    Version {selectedVersion.version_number} du{' '}
+                    {format(new Date(selectedVersion.created_at), 'd MMMM yyyy', { locale: fr })}, remplacée depuis.
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => selectVersion(document.current_version)}>
+                    Voir la version actuelle
+                  </Button>
+                </div>
+              )}
+              {signedUrl ? (
+                <DocumentPreview
+                  fileType={selectedVersion?.file_type ?? document.file_type}
+                  url={signedUrl}
+                  fileName={selectedVersion?.file_name ?? document.name}
+                  page={page}
+                />
+              ) : (
+                <p className="text-muted-foreground text-center py-16">
+                  Le fichier n'est plus disponible dans le stockage.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {/* Ingestion metadata */}
+            <Card className="border-border/50">
+              <CardHeader>
+                <CardTitle className="text-base">Informations</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {document.description && (
+                  <p className="text-sm mb-4 whitespace-pre-line">{document.description}</p>
+                )}
+                {document.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-4">
+                    {document.tags.map(tag => (
+                      <Badge key={tag} variant="secondary" className="font-normal">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+                <dl className="space-y-2 text-sm">
+                  {metadata.map(item => (
+                    <div key={item.label} className="flex justify-between gap-4">
+                      <dt className="text-muted-foreground">{item.label}</dt>
+                      <dd className="text-right truncate">{item.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+                {document.status === 'error' && document.error_message && (
+                  <p className="text-xs text-destructive mt-4">{document.error_message}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Version history; only the current version is ingested */}
+            <Card className="border-border/50">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <History className="w-4 h-4" />
+                  Versions
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1">
+                  {versions.map(version => {
+                    const isCurrent = version.version_number === document.current_version;
+                    return (
+                      <li
+                        key={version.id}
+                        className={cn(
+                          'flex items-center gap-2 px-2 py-1.5 rounded-md text-sm',
+                          version.id === selectedVersion?.id ? 'bg-muted' : 'hover:bg-muted/50'
+                        )}
+                      >
+                        <button
+                          type="button"
+                          className="flex-1 min-w-0 text-left"
+                          onClick={() => selectVersion(version.version_number)}
+                        >
+                          <span className="flex items-center gap-2">
+                            <span className="font-medium">v{version.version_number}</span>
+                            {isCurrent && <Badge variant="secondary" className="text-xs">Actuelle</Badge>}
+                          </span>
+                          <span className="block text-xs text-muted-foreground truncate" title={version.file_name}>
+                            {format(new Date(version.created_at), 'd MMM yyyy', { locale: fr })} · {formatFileSize(version.file_size)} · {version.file_name}
+                          </span>
+                        </button>
+                        {!isCurrent && (
+                          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" asChild title="Interroger cette version">
+                            <Link to={`/chat?version=${version.id}`}>
+                              <MessageSquare className="w-3.5 h-3.5" />
+                            </Link>
+                          </Button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </CardContent>
+            </Card>
+
+            {/* Conversations that cited this document */}
+            <Card className="border-border/50">
+              <CardHeader>
+                <CardTitle className="text-base">Cité dans</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {conversations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Ce document n'a encore été cité dans aucune de vos conversations.
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {conversations.map(conversation => (
+                      <li key={conversation.id}>
+                        <Link
+                          to={`/chat?conversation=${conversation.id}`}
+                          className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted text-sm"
+                        >
+                          <MessageSquare className="w-4 h-4 text-muted-foreground shrink-0" />
+                          <span className="truncate flex-1">{conversation.title}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {conversation.citationCount}×
+                          </span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <DocumentMetadataDialog
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        document={document}
+        onConfirm={handleUpdateMetadata}
+      />
+    </AppLayout>
+  );
+}
@@ -1,4 +1,5 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePermissions } from '@/contexts/PermissionsContext';
 import { supabase } from '@/integrations/supabase/client';
@@ -9,11 +10,45 @@ import FolderCard from '@/components/documents/FolderCard';
 import CreateFolderDialog from '@/components/documents/CreateFolderDialog';
 import MoveToFolderDialog from '@/components/documents/MoveToFolderDialog';
 import FolderAccessDialog from '@/components/documents/FolderAccessDialog';
+import DocumentMetadataDialog from '@/components/documents/DocumentMetadataDialog';
+import FolderBreadcrumb from '@/components/documents/FolderBreadcrumb';
+import DocumentFilters, { type Uploader } from '@/components/documents/DocumentFilters';
+import VirtualDocumentList from '@/components/documents/VirtualDocumentList';
+import FileDropZone from '@/components/documents/FileDropZone';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
-import { FileText, FolderOpen, FolderPlus, ChevronLeft, Lock, Users, UserCheck } from 'lucide-react';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import {
+  flattenPages,
+  useDocumentSearch,
+  useDocumentsRealtime,
+  useFolderDocumentCounts,
+  useFolderDocuments,
+  useFolders,
+  useTags,
+} from '@/hooks/useDocumentQueries';
+import {
+  renameDocument,
+  restoreTrashItem,
+  trashDocument,
+  trashFolder,
+  updateDocumentMetadata,
+  type DocumentMetadata,
+  type TrashItemType,
+} from '@/lib/documents';
+import { getDescendantIds, getFolderPath } from '@/lib/folders';
+import { resolveTags } from '@/lib/tags';
+import {
+  hasActiveFilters,
+  parseSearchFilters,
+  toSearchParams,
+  type DocumentSearchFilters,
+} from '@/lib/documentSearch';
+import { FileText, FolderOpen, FolderPlus, ChevronLeft, Lock, MessageSquare, Users, UserCheck } from 'lucide-react';
 
 interface Document {
   id: string;
@@ -32,6 +67,7 @@ interface Folder {
   created_at: string;
   access_level: 'private' | 'team' | 'custom';
   created_by: string | null;
+  parent_id: string | null;
 }
 
 const accessIcons = {
@@ -49,51 +85,84 @@ export default function Documents() {
     canDeleteFolders,
     canRenameFolders,
     canRenameDocuments,
+    canReingestDocuments,
     hasRole,
   } = usePermissions();
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [folders, setFolders] = useState<Folder[]>([]);
-  const [loading, setLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
   const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
   const [createFolderOpen, setCreateFolderOpen] = useState(false);
   const [renameFolderData, setRenameFolderData] = useState<Folder | null>(null);
   const [moveDocumentId, setMoveDocumentId] = useState<string | null>(null);
+  const [moveFolderId, setMoveFolderId] = useState<string | null>(null);
+  const [editDocumentId, setEditDocumentId] = useState<string | null>(null);
   const [accessDialogFolder, setAccessDialogFolder] = useState<Folder | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [uploaders, setUploaders] = useState<Uploader[]>([]);
   const { toast } = useToast();
+  const { enqueue, enqueueVersion } = useUploadQueue();
+  const navigate = useNavigate();
+
+  const filters = useMemo(() => parseSearchFilters(searchParams), [searchParams]);
+  const isSearching = hasActiveFilters(filters);
+
+  const handleFiltersChange = useCallback((next: DocumentSearchFilters) => {
+    setSearchParams(toSearchParams(next), { replace: true });
+  }, [setSearchParams]);
+
+  // Server-side pages per folder (or per search), kept live by realtime
+  const { data: folders = [], isLoading: foldersLoading } = useFolders<Folder>(!!user);
+  const { data: documentCounts, isError: documentCountsFailed } = useFolderDocumentCounts(!!user);
+  const folderQuery = useFolderDocuments(currentFolderId, filters.sort, !!user && !isSearching);
+  const searchQuery = useDocumentSearch(filters, folders, !!user && isSearching && !foldersLoading);
+  const { data: tags = [] } = useTags(!!user);
+  const { invalidateDocuments, invalidateFolders, invalidateTags } = useDocumentsRealtime(!!user);
+  const tagsById = useMemo(() => new Map(tags.map(t => [t.id, t])), [tags]);
+
+  const currentDocuments = useMemo(() => flattenPages(folderQuery.data), [folderQuery.data]);
+  const searchResults = useMemo(() => flattenPages(searchQuery.data), [searchQuery.data]);
+  const currentTotal = folderQuery.data?.pages[0]?.total ?? 0;
+  const searchTotal = searchQuery.data?.pages[0]?.total ?? 0;
+  const loading = foldersLoading || (isSearching ? searchQuery.isLoading : folderQuery.isLoading);
+
+  const refresh = useCallback(() => {
+    invalidateDocuments();
+    invalidateFolders();
+  }, [invalidateDocuments, invalidateFolders]);
 
   const currentFolder = folders.find(f => f.id === currentFolderId);
 
-  const fetchData = useCallback(async () => {
-    if (!user) return;
+  const toggleTagFilter = (tagId: string) => {
+    handleFiltersChange({
+      ...filters,
+      tagIds: filters.tagIds.includes(tagId)
+        ? filters.tagIds.filter(id => id !== tagId)
+        : [...filters.tagIds, tagId],
+    });
+  };
 
-    const [docsResult, foldersResult] = await Promise.all([
-      supabase
-        .from('documents')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false }),
-      supabase
-        .from('folders')
-        .select('*')
-        .order('name', { ascending: true }),
-    ]);
-
-    if (!docsResult.error && docsResult.data) {
-      setDocuments(docsResult.data);
-    }
-    if (!foldersResult.error && foldersResult.data) {
-      setFolders(foldersResult.data as Folder[]);
-    }
-    setLoading(false);
+  useEffect(() => {
+    if (!user) return;
+    supabase.rpc('get_document_uploaders').then(({ data }) => setUploaders(data || []));
   }, [user]);
 
+  // Folders stay usable without their counts
   useEffect(() => {
-    fetchData();
-  }, [fetchData]);
-
-  // Filter documents for current view
-  const currentDocuments = documents.filter(d => d.folder_id === currentFolderId);
+    if (!documentCountsFailed) return;
+    toast({
+      title: 'Erreur',
+      description: 'Impossible de charger le nombre de documents par dossier',
+      variant: 'destructive',
+    });
+  }, [documentCountsFailed, toast]);
+
+  // Folders whose parent is hidden from the user are listed at the root
+  const childFolders = useMemo(() => {
+    const visibleIds = new Set(folders.map(f => f.id));
+    return folders.filter(f =>
+      (f.parent_id && visibleIds.has(f.parent_id) ? f.parent_id : null) === currentFolderId
+    );
+  }, [folders, currentFolderId]);
 
   const handleDeleteDocument = async (id: string) => {
     if (!canDeleteDocuments) {
@@ -105,40 +174,60 @@ export default function Documents() {
       return;
     }
 
-    const doc = documents.find(d => d.id === id);
-    if (!doc) return;
-
     setDeletingId(id);
 
     try {
-      // Call the n8n Delete webhook via Edge Function
-      await supabase.functions.invoke('n8n-delete', {
-        body: {
-          file_path: doc.file_path,
-          file_name: doc.name,
-          document_id: doc.id,
-        },
+      const { name } = await trashDocument(id);
+      invalidateDocuments();
+      toast({
+        title: 'Document placé dans la corbeille',
+        description: `"${name}" a été placé dans la corbeille.`,
+        action: (
+          <ToastAction altText="Annuler la suppression" onClick={() => handleUndoTrash('document', id)}>
+            Annuler
+          </ToastAction>
+        ),
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Erreur',
+        description: error.message || 'Impossible de supprimer le document',
+        variant: 'destructive',
       });
+    }
+
+    setDeletingId(null);
+  };
+
+  // Re-ingest a single document or every document of a folder; the new
+  // status comes back through the realtime subscription
+  const handleReingest = async (target: { documentId: string } | { folderId: string }) => {
+    if (!canReingestDocuments) return;
 
-      // Delete from storage and database
-      await supabase.storage.from('documents').remove([doc.file_path]);
-      const { error } = await supabase.from('documents').delete().eq('id', id);
+    const id = 'documentId' in target ? target.documentId : target.folderId;
+    setRetryingId(id);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('retry-ingestion', {
+        body: 'documentId' in target
+          ? { document_ids: [target.documentId] }
+          : { folder_id: target.folderId },
+      });
       if (error) throw error;
 
-      setDocuments(docs => docs.filter(d => d.id !== id));
       toast({
-        title: 'Document supprimé',
-        description: `"${doc.name}" a été supprimé.`,
+        title: 'Ingestion relancée',
+        description: `${data.count} document${data.count !== 1 ? 's' : ''} en cours de réingestion.`,
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'Erreur',
-        description: error.message || 'Impossible de supprimer le document',
+        description: (error as Error).message || 'Impossible de relancer l\'ingestion',
         variant: 'destructive',
       });
     }
 
-    setDeletingId(null);
+    setRetryingId(null);
   };
 
   const handleCreateFolder = async (name: string) => {
@@ -146,7 +235,7 @@ export default function Documents() {
 
     const { data, error } = await supabase
       .from('folders')
-      .insert([{ name, user_id: user.id, created_by: user.id }])
+      .insert([{ name, user_id: user.id, created_by: user.id, parent_id: currentFolderId }])
       .select()
       .single();
 
@@ -159,7 +248,7 @@ export default function Documents() {
       return;
     }
 
-    setFolders(prev => [...prev, data as Folder].sort((a, b) => a.name.localeCompare(b.name)));
+    invalidateFolders();
     toast({ title: 'Dossier créé', description: `"${name}" a été créé.` });
   };
 
@@ -180,10 +269,7 @@ export default function Documents() {
       return;
     }
 
-    setFolders(prev =>
-      prev.map(f => (f.id === renameFolderData.id ? { ...f, name } : f))
-        .sort((a, b) => a.name.localeCompare(b.name))
-    );
+    invalidateFolders();
     setRenameFolderData(null);
     toast({ title: 'Dossier renommé' });
   };
@@ -201,9 +287,9 @@ export default function Documents() {
     const folder = folders.find(f => f.id === folderId);
     if (!folder) return;
 
-    const { error } = await supabase.from('folders').delete().eq('id', folderId);
-
-    if (error) {
+    try {
+      await trashFolder(folderId);
+    } catch {
       toast({
         title: 'Erreur',
         description: 'Impossible de supprimer le dossier',
@@ -212,15 +298,40 @@ export default function Documents() {
       return;
     }
 
-    setFolders(prev => prev.filter(f => f.id !== folderId));
-    // Documents in this folder will have folder_id set to null due to ON DELETE SET NULL
-    setDocuments(prev => prev.map(d => d.folder_id === folderId ? { ...d, folder_id: null } : d));
+    // Sub-folders and documents go to the trash along with the folder
+    refresh();
     if (currentFolderId === folderId) {
-      setCurrentFolderId(null);
+      setCurrentFolderId(folder.parent_id);
+    }
+    toast({
+      title: 'Dossier placé dans la corbeille',
+      description: `"${folder.name}" et son contenu ont été placés dans la corbeille.`,
+      action: (
+        <ToastAction altText="Annuler la suppression" onClick={() => handleUndoTrash('folder', folderId)}>
+          Annuler
+        </ToastAction>
+      ),
+    });
+  };
+
+  const handleUndoTrash = async (type: TrashItemType, id: string) => {
+    try {
+      await restoreTrashItem(type, id);
+      refresh();
+      toast({ title: 'Suppression annulée' });
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de restaurer',
+        variant: 'destructive',
+      });
     }
-    toast({ title: 'Dossier supprimé', description: `"${folder.name}" a été supprimé.` });
   };
 
+  // Trashing goes through trash_document, open to admins on any document they
+  // can see; moving updates the row, which RLS only allows to its owner
+  const canMoveDocument = (doc: { user_id: string }) => canRenameDocuments && doc.user_id === user?.id;
+
   const handleMoveDocument = async (targetFolderId: string | null) => {
     if (!moveDocumentId) return;
 
@@ -238,32 +349,108 @@ export default function Documents() {
       return;
     }
 
-    setDocuments(prev =>
-      prev.map(d => (d.id === moveDocumentId ? { ...d, folder_id: targetFolderId } : d))
-    );
+    invalidateDocuments();
     setMoveDocumentId(null);
     toast({ title: 'Document déplacé' });
   };
 
-  const documentToMove = documents.find(d => d.id === moveDocumentId);
+  // Rejects so the inline field or the dialog stays open on failure
+  const handleRenameDocument = async (id: string, name: string) => {
+    try {
+      await renameDocument(id, name);
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de renommer le document',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+
+    invalidateDocuments();
+    toast({ title: 'Document renommé' });
+  };
+
+  const handleUpdateMetadata = async (metadata: DocumentMetadata) => {
+    if (!editDocumentId) return;
+
+    try {
+      await updateDocumentMetadata(editDocumentId, metadata);
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de modifier le document',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+
+    invalidateTags();
+    toast({ title: 'Document modifié' });
+  };
+
+  const handleMoveFolder = async (targetFolderId: string | null) => {
+    if (!moveFolderId) return;
+
+    const { error } = await supabase
+      .from('folders')
+      .update({ parent_id: targetFolderId })
+      .eq('id', moveFolderId);
+
+    if (error) {
+      toast({
+        title: 'Erreur',
+        description: 'Impossible de déplacer le dossier',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    invalidateFolders();
+    setMoveFolderId(null);
+    toast({ title: 'Dossier déplacé' });
+  };
+
+  const documentToMove = [...currentDocuments, ...searchResults].find(d => d.id === moveDocumentId);
+  const editedDocument = [...currentDocuments, ...searchResults].find(d => d.id === editDocumentId);
+  const documentToEdit = editedDocument
+    ? { ...editedDocument, tags: resolveTags(tagsById, editedDocument.tag_ids).map(t => t.name) }
+    : null;
+  const folderToMove = folders.find(f => f.id === moveFolderId);
+  const movedFolderIds = useMemo(
+    () => (moveFolderId ? getDescendantIds(folders, moveFolderId) : undefined),
+    [folders, moveFolderId]
+  );
   const canManageAccess = hasRole('admin');
 
   return (
     <AppLayout>
-      <div className="p-8 max-w-5xl mx-auto space-y-8 animate-fade-in">
+      <FileDropZone
+        className="p-8 max-w-5xl mx-auto space-y-8 animate-fade-in"
+        onDrop={(sources) => enqueue(sources, currentFolderId)}
+        disabled={!canUploadDocuments}
+        label={`Déposez vos fichiers pour les ajouter à ${currentFolder ? `"${currentFolder.name}"` : 'la racine'}`}
+      >
         {/* Header */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div className="flex items-center gap-3">
-            {currentFolderId && (
+            {currentFolder && (
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={() => setCurrentFolderId(null)}
+                onClick={() => setCurrentFolderId(currentFolder.parent_id)}
               >
                 <ChevronLeft className="w-5 h-5" />
               </Button>
             )}
             <div>
+              {currentFolder && (
+                <FolderBreadcrumb
+                  folders={folders}
+                  currentFolderId={currentFolderId}
+                  onNavigate={setCurrentFolderId}
+                />
+              )}
               <div className="flex items-center gap-2">
                 <h1 className="text-3xl font-semibold">
                   {currentFolder ? currentFolder.name : 'Documents'}
@@ -277,7 +464,7 @@ export default function Documents() {
               </div>
               <p className="text-muted-foreground mt-1">
                 {currentFolder
-                  ? `${currentDocuments.length} document${currentDocuments.length !== 1 ? 's' : ''}`
+                  ? `${currentTotal} document${currentTotal !== 1 ? 's' : ''}`
                   : 'Gérez vos documents et leur statut d\'ingestion'}
               </p>
             </div>
@@ -292,10 +479,46 @@ export default function Documents() {
                 Nouveau dossier
               </Button>
             )}
-            {canUploadDocuments && <UploadButton onUploadComplete={fetchData} />}
+            {canUploadDocuments && <UploadButton folderId={currentFolderId} allowDirectories />}
           </div>
         </div>
 
+        {/* Search and filters */}
+        <DocumentFilters
+          filters={filters}
+          onChange={handleFiltersChange}
+          folders={folders}
+          uploaders={uploaders}
+          tags={tags}
+        />
+
+        {/* Tags cut across folders; a chat can be scoped to the selected ones */}
+        {tags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 -mt-4">
+            {tags.map(tag => (
+              <Badge
+                key={tag.id}
+                variant={filters.tagIds.includes(tag.id) ? 'default' : 'secondary'}
+                className="cursor-pointer font-normal"
+                onClick={() => toggleTagFilter(tag.id)}
+              >
+                {tag.name}
+              </Badge>
+            ))}
+            {filters.tagIds.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => navigate(`/chat?tag=${filters.tagIds.join(',')}`)}
+              >
+                <MessageSquare className="w-3.5 h-3.5 mr-1" />
+                Interroger ces documents
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Content */}
         {loading ? (
           <div className="space-y-4">
@@ -314,22 +537,59 @@ export default function Documents() {
               </Card>
             ))}
           </div>
+        ) : isSearching ? (
+          <div className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">
+              {searchTotal
+                ? `${searchTotal} résultat${searchTotal > 1 ? 's' : ''}`
+                  + (searchTotal > searchResults.length ? ` (${searchResults.length} affichés)` : '')
+                : 'Aucun résultat'}
+            </h2>
+            <VirtualDocumentList
+              items={searchResults}
+              hasMore={searchQuery.hasNextPage}
+              loadingMore={searchQuery.isFetchingNextPage}
+              onLoadMore={() => searchQuery.fetchNextPage()}
+              renderItem={doc => (
+                <DocumentCard
+                  document={doc}
+                  excerpt={doc.headline}
+                  location={getFolderPath(folders, doc.folder_id).map(f => f.name).join(' / ') || 'Racine'}
+                  tags={resolveTags(tagsById, doc.tag_ids)}
+                  onClick={() => navigate(`/documents/${doc.id}`)}
+                  onTagClick={toggleTagFilter}
+                  onTagsChange={canRenameDocuments ? invalidateTags : undefined}
+                  onDelete={canDeleteDocuments ? handleDeleteDocument : undefined}
+                  onMove={canMoveDocument(doc) ? (id) => setMoveDocumentId(id) : undefined}
+                  onRename={canRenameDocuments ? handleRenameDocument : undefined}
+                  onEditDetails={canRenameDocuments ? (id) => setEditDocumentId(id) : undefined}
+                  onRetry={canReingestDocuments ? (id) => handleReingest({ documentId: id }) : undefined}
+                  onUploadVersion={canUploadDocuments ? (id, file) => enqueueVersion(file, id) : undefined}
+                  isDeleting={deletingId === doc.id}
+                  isRetrying={retryingId === doc.id}
+                />
+              )}
+            />
+          </div>
         ) : (
           <>
-            {/* Folders (only show at root level) */}
-            {!currentFolderId && folders.length > 0 && (
+            {/* Sub-folders of the current folder */}
+            {childFolders.length > 0 && (
               <div className="space-y-3">
                 <h2 className="text-sm font-medium text-muted-foreground">Dossiers</h2>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-                  {folders.map(folder => (
+                  {childFolders.map(folder => (
                     <FolderCard
                       key={folder.id}
                       folder={folder}
-                      documentCount={documents.filter(d => d.folder_id === folder.id).length}
+                      documentCount={documentCounts ? documentCounts.get(folder.id) ?? 0 : undefined}
                       onClick={() => setCurrentFolderId(folder.id)}
                       onDelete={canDeleteFolders ? () => handleDeleteFolder(folder.id) : undefined}
                       onRename={canRenameFolders ? () => setRenameFolderData(folder) : undefined}
+                      onMove={canRenameFolders ? () => setMoveFolderId(folder.id) : undefined}
                       onManageAccess={canManageAccess ? () => setAccessDialogFolder(folder) : undefined}
+                      onReingest={canReingestDocuments ? () => handleReingest({ folderId: folder.id }) : undefined}
+                      onDropFiles={canUploadDocuments ? (sources) => enqueue(sources, folder.id) : undefined}
                       accessLevel={folder.access_level}
                     />
                   ))}
@@ -338,7 +598,7 @@ export default function Documents() {
             )}
 
             {/* Documents */}
-            {currentDocuments.length === 0 && (!currentFolderId ? folders.length === 0 : true) ? (
+            {currentDocuments.length === 0 && childFolders.length === 0 ? (
               <Card className="border-dashed border-2 border-border/50">
                 <CardContent className="py-16 text-center">
                   <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
@@ -349,28 +609,42 @@ export default function Documents() {
                   </h3>
                   <p className="text-muted-foreground mb-6 max-w-sm mx-auto">
                     {currentFolderId
-                      ? 'Déplacez des documents dans ce dossier pour les organiser.'
+                      ? 'Déposez des fichiers ici ou déplacez des documents dans ce dossier pour les organiser.'
                       : 'Commencez par uploader vos premiers documents pour les interroger avec le chatbot.'}
                   </p>
-                  {!currentFolderId && canUploadDocuments && <UploadButton onUploadComplete={fetchData} />}
+                  {canUploadDocuments && <UploadButton folderId={currentFolderId} />}
                 </CardContent>
               </Card>
             ) : currentDocuments.length > 0 && (
               <div className="space-y-3">
-                {!currentFolderId && folders.length > 0 && (
+                {childFolders.length > 0 && (
                   <h2 className="text-sm font-medium text-muted-foreground">
-                    Documents (racine)
+                    {currentFolderId ? 'Documents' : 'Documents (racine)'}
                   </h2>
                 )}
-                {currentDocuments.map(doc => (
-                  <DocumentCard
-                    key={doc.id}
-                    document={doc}
-                    onDelete={canDeleteDocuments ? handleDeleteDocument : undefined}
-                    onMove={canRenameDocuments ? (id) => setMoveDocumentId(id) : undefined}
-                    isDeleting={deletingId === doc.id}
-                  />
-                ))}
+                <VirtualDocumentList
+                  items={currentDocuments}
+                  hasMore={folderQuery.hasNextPage}
+                  loadingMore={folderQuery.isFetchingNextPage}
+                  onLoadMore={() => folderQuery.fetchNextPage()}
+                  renderItem={doc => (
+                    <DocumentCard
+                      document={doc}
+                      tags={resolveTags(tagsById, doc.tag_ids)}
+                      onClick={() => navigate(`/documents/${doc.id}`)}
+                      onTagClick={toggleTagFilter}
+                      onTagsChange={canRenameDocuments ? invalidateTags : undefined}
+                      onDelete={canDeleteDocuments ? handleDeleteDocument : undefined}
+                      onMove={canMoveDocument(doc) ? (id) => setMoveDocumentId(id) : undefined}
+                      onRename={canRenameDocuments ? handleRenameDocument : undefined}
+                      onEditDetails={canRenameDocuments ? (id) => setEditDocumentId(id) : undefined}
+                      onRetry={canReingestDocuments ? (id) => handleReingest({ documentId: id }) : undefined}
+                      onUploadVersion={canUploadDocuments ? (id, file) => enqueueVersion(file, id) : undefined}
+                      isDeleting={deletingId === doc.id}
+                      isRetrying={retryingId === doc.id}
+                    />
+                  )}
+                />
               </div>
             )}
           </>
@@ -385,12 +659,12 @@ export default function Documents() {
             <div>
               <p className="text-sm font-medium">Formats supportés</p>
               <p className="text-sm text-muted-foreground">
-                PDF, DOCX, TXT, CSV, JSON, Markdown
+                PDF, DOCX, TXT, CSV, JSON, Markdown · glissez-déposez des fichiers ou des dossiers entiers sur la page ou sur un dossier
               </p>
             </div>
           </CardContent>
         </Card>
-      </div>
+      </FileDropZone>
 
       {/* Create Folder Dialog */}
       <CreateFolderDialog
@@ -418,6 +692,25 @@ export default function Documents() {
         onMove={handleMoveDocument}
       />
 
+      {/* Document Metadata Dialog */}
+      <DocumentMetadataDialog
+        open={!!editDocumentId}
+        onOpenChange={(open) => !open && setEditDocumentId(null)}
+        document={documentToEdit}
+        onConfirm={handleUpdateMetadata}
+      />
+
+      {/* Move Folder Dialog */}
+      <MoveToFolderDialog
+        open={!!moveFolderId}
+        onOpenChange={(open) => !open && setMoveFolderId(null)}
+        folders={folders}
+        currentFolderId={folderToMove?.parent_id ?? null}
+        onMove={handleMoveFolder}
+        title="Déplacer le dossier"
+        excludedIds={movedFolderIds}
+      />
+
       {/* Folder Access Dialog */}
       {accessDialogFolder && (
         <FolderAccessDialog
@@ -425,7 +718,7 @@ export default function Documents() {
           onOpenChange={(open) => !open && setAccessDialogFolder(null)}
           folderId={accessDialogFolder.id}
           currentAccessLevel={accessDialogFolder.access_level}
-          onUpdated={fetchData}
+          onUpdated={refresh}
         />
       )}
     </AppLayout>
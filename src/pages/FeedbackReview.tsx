@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { supabase } from '@/integrations/supabase/client';
+import AppLayout from '@/components/layout/AppLayout';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { Citation } from '@/lib/chatStream';
+import { FEEDBACK_REASONS, setFeedbackReviewed } from '@/lib/feedback';
+import { cn } from '@/lib/utils';
+import { Bot, Check, FileText, Loader2, MessageSquare, MessageSquareWarning, RotateCcw, User } from 'lucide-react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+interface FeedbackItem {
+  id: string;
+  message_id: string;
+  reason: string | null;
+  correction: string | null;
+  created_at: string;
+  user_name: string | null;
+  reviewed_at: string | null;
+  reviewed_by_name: string | null;
+  conversation_id: string;
+  conversation_title: string;
+  question: string | null;
+  // Null when the answer cites documents the reviewer cannot see
+  answer: string | null;
+  // Only the documents the reviewer can see
+  citations: Citation[];
+}
+
+interface ConversationMessage {
+  id: string;
+  role: string;
+  content: string | null;
+}
+
+const REDACTED_ANSWER = 'Réponse masquée : elle cite des documents auxquels vous n\'avez pas accès';
+
+type FeedbackTab = 'pending' | 'reviewed';
+
+export default function FeedbackReview() {
+  const { canReviewFeedback, loading: permLoading } = usePermissions();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [items, setItems] = useState<FeedbackItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tab, setTab] = useState<FeedbackTab>('pending');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Feedback whose conversation is shown, up to the rated answer
+  const [conversationItem, setConversationItem] = useState<FeedbackItem | null>(null);
+  const [conversation, setConversation] = useState<ConversationMessage[] | null>(null);
+
+  useEffect(() => {
+    if (!permLoading && !canReviewFeedback) {
+      navigate('/dashboard');
+    }
+  }, [canReviewFeedback, permLoading, navigate]);
+
+  const fetchFeedback = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_negative_feedback');
+
+    if (error) {
+      console.error('Error fetching feedback:', error);
+    }
+
+    setItems((data || []).map(item => ({ ...item, citations: item.citations as unknown as Citation[] })));
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (canReviewFeedback) fetchFeedback();
+  }, [canReviewFeedback, fetchFeedback]);
+
+  useEffect(() => {
+    if (!conversationItem) return;
+    setConversation(null);
+
+    const loadConversation = async () => {
+      const { data, error } = await supabase.rpc('get_feedback_conversation', {
+        _feedback_id: conversationItem.id,
+      });
+
+      if (error) {
+        toast({ title: 'Erreur', description: 'Impossible de charger la conversation', variant: 'destructive' });
+        setConversationItem(null);
+        return;
+      }
+      setConversation(data);
+    };
+
+    loadConversation();
+  }, [conversationItem, toast]);
+
+  const handleReview = async (item: FeedbackItem, reviewed: boolean) => {
+    setBusyId(item.id);
+
+    try {
+      await setFeedbackReviewed(item.id, reviewed);
+      setItems(prev => prev.map(i => (i.id === item.id
+        ? { ...i, reviewed_at: reviewed ? new Date().toISOString() : null, reviewed_by_name: null }
+        : i)));
+      toast({ title: reviewed ? 'Retour traité' : 'Retour remis à traiter' });
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de modifier le retour',
+        variant: 'destructive',
+      });
+    }
+
+    setBusyId(null);
+  };
+
+  const pendingCount = items.filter(i => !i.reviewed_at).length;
+  const visibleItems = items.filter(i => (tab === 'pending' ? !i.reviewed_at : !!i.reviewed_at));
+
+  if (permLoading || loading) {
+    return (
+      <AppLayout>
+        <div className="p-8 max-w-6xl mx-auto space-y-6">
+          <Skeleton className="h-10 w-64" />
+          <Skeleton className="h-96 w-full" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="p-8 max-w-6xl mx-auto space-y-8 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-semibold flex items-center gap-3">
+              <MessageSquareWarning className="w-8 h-8 text-primary" />
+              Retours
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Réponses signalées par les utilisateurs, pour repérer ce qui manque dans les documents
+            </p>
+          </div>
+          <Tabs value={tab} onValueChange={(value) => setTab(value as FeedbackTab)}>
+            <TabsList>
+              <TabsTrigger value="pending">À traiter ({pendingCount})</TabsTrigger>
+              <TabsTrigger value="reviewed">Traités ({items.length - pendingCount})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="space-y-4">
+          {visibleItems.map(item => (
+            <Card key={item.id} className="border-border/50">
+              <CardContent className="pt-6 space-y-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  {item.reason && (
+                    <Badge variant="destructive">{FEEDBACK_REASONS[item.reason] ?? item.reason}</Badge>
+                  )}
+                  <span>
+                    {item.user_name || 'Utilisateur inconnu'} · {format(new Date(item.created_at), 'dd MMM yyyy HH:mm', { locale: fr })}
+                  </span>
+                  {item.reviewed_at && (
+                    <span>
+                      · traité le {format(new Date(item.reviewed_at), 'dd MMM yyyy', { locale: fr })}
+                      {item.reviewed_by_name && ` par ${item.reviewed_by_name}`}
+                    </span>
+                  )}
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div>
+                    <p className="text-xs font-medium text-muted-foreground mb-1">Question</p>
+                    <p className="text-sm whitespace-pre-wrap line-clamp-6">{item.question || '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-muted-foreground mb-1">Réponse</p>
+                    {item.answer !== null ? (
+                      <p className="text-sm whitespace-pre-wrap line-clamp-6">{item.answer}</p>
+                    ) : (
+                      <p className="text-sm italic text-muted-foreground">{REDACTED_ANSWER}</p>
+                    )}
+                  </div>
+                </div>
+
+                {item.correction && (
+                  <div className="rounded-lg bg-muted/50 px-4 py-3">
+                    <p className="text-xs font-medium text-muted-foreground mb-1">Réponse attendue</p>
+                    <p className="text-sm whitespace-pre-wrap">{item.correction}</p>
+                  </div>
+                )}
+
+                <div>
+                  <p className="text-xs font-medium text-muted-foreground mb-1">Documents cités</p>
+                  {item.citations.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {item.citations.map((citation, i) => (
+                        citation.document_id ? (
+                          <Link
+                            key={i}
+                            to={`/documents/${citation.document_id}${citation.page ? `?page=${citation.page}` : ''}`}
+                            className="flex items-center gap-1.5 text-xs hover:text-primary transition-colors"
+                          >
+                            <FileText className="w-3 h-3 shrink-0" />
+                            <span className="truncate max-w-60">{citation.document_name || 'Document'}</span>
+                            {citation.page && <span className="text-muted-foreground">· p. {citation.page}</span>}
+                          </Link>
+                        ) : (
+                          <span key={i} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                            <FileText className="w-3 h-3 shrink-0" />
+                            <span className="truncate max-w-60">{citation.document_name || 'Document supprimé'}</span>
+                          </span>
+                        )
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {item.answer !== null ? 'Aucun document trouvé pour cette question' : 'Aucun document cité que vous pouvez consulter'}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setConversationItem(item)}>
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    Voir la conversation
+                  </Button>
+                  <Button
+                    variant={item.reviewed_at ? 'ghost' : 'default'}
+                    size="sm"
+                    onClick={() => handleReview(item, !item.reviewed_at)}
+                    disabled={busyId === item.id}
+                  >
+                    {busyId === item.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                    ) : item.reviewed_at ? (
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                    ) : (
+                      <Check className="w-4 h-4 mr-2" />
+                    )}
+                    {item.reviewed_at ? 'Remettre à traiter' : 'Marquer comme traité'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {visibleItems.length === 0 && (
+            <Card className="border-border/50">
+              <CardContent className="py-12 text-center text-muted-foreground">
+                {tab === 'pending' ? 'Aucun retour à traiter' : 'Aucun retour traité'}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!conversationItem} onOpenChange={(open) => !open && setConversationItem(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[80vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="truncate">{conversationItem?.conversation_title}</DialogTitle>
+            <DialogDescription>Conversation jusqu'à la réponse signalée</DialogDescription>
+          </DialogHeader>
+          <div className="flex-1 overflow-auto space-y-4 pr-2">
+            {conversation ? conversation.map(message => (
+              <div key={message.id} className="flex gap-3">
+                <div className={cn(
+                  "w-7 h-7 rounded-lg flex items-center justify-center shrink-0",
+                  message.role === 'user' ? "bg-secondary" : "gradient-hero"
+                )}>
+                  {message.role === 'user' ? (
+                    <User className="w-3.5 h-3.5 text-secondary-foreground" />
+                  ) : (
+                    <Bot className="w-3.5 h-3.5 text-primary-foreground" />
+                  )}
+                </div>
+                <p className={cn(
+                  "text-sm whitespace-pre-wrap min-w-0",
+                  message.content === null && "italic text-muted-foreground",
+                  message.id === conversationItem?.message_id && "rounded-lg bg-destructive/10 px-3 py-2"
+                )}>
+                  {message.content ?? REDACTED_ANSWER}
+                </p>
+              </div>
+            )) : (
+              <div className="py-8 flex justify-center">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
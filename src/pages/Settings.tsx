@@ -9,7 +9,7 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { User, Mail, Trash2, Loader2, Save, Shield, CreditCard, Users } from 'lucide-react';
+import { User, Mail, Trash2, Loader2, Save, Shield, CreditCard, Users, ArchiveRestore } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -42,6 +42,10 @@ export default function Settings() {
   // Stats for super admin
   const [stats, setStats] = useState({ users: 0, documents: 0, conversations: 0 });
 
+  // Days before trashed documents and folders are purged
+  const [retentionDays, setRetentionDays] = useState('');
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+
   useEffect(() => {
     if (!permLoading && !canAccessSettings && role !== null) {
       // Redirect non-admin users away
@@ -55,6 +59,17 @@ export default function Settings() {
     }
   }, [canManageBilling]);
 
+  useEffect(() => {
+    if (!canAccessSettings) return;
+    supabase
+      .from('app_settings')
+      .select('trash_retention_days')
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) setRetentionDays(String(data.trash_retention_days));
+      });
+  }, [canAccessSettings]);
+
   const fetchStats = async () => {
     const [usersRes, docsRes, convsRes] = await Promise.all([
       supabase.from('profiles').select('id', { count: 'exact', head: true }),
@@ -101,6 +116,37 @@ export default function Settings() {
     setIsSaving(false);
   };
 
+  const handleSaveRetention = async () => {
+    const days = Number(retentionDays);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      toast({
+        title: 'Durée invalide',
+        description: 'Indiquez un nombre de jours entre 1 et 365.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSavingRetention(true);
+
+    const { error } = await supabase
+      .from('app_settings')
+      .update({ trash_retention_days: days })
+      .eq('id', true);
+
+    if (error) {
+      toast({
+        title: 'Erreur',
+        description: 'Impossible de modifier la durée de conservation',
+        variant: 'destructive',
+      });
+    } else {
+      toast({ title: 'Durée de conservation mise à jour' });
+    }
+
+    setIsSavingRetention(false);
+  };
+
   const handleDeleteAccount = async () => {
     setIsDeleting(true);
 
@@ -228,6 +274,55 @@ export default function Settings() {
           </Card>
         )}
 
+        {/* Trash retention */}
+        {canAccessSettings && (
+          <Card className="border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ArchiveRestore className="w-5 h-5 text-primary" />
+                Corbeille
+              </CardTitle>
+              <CardDescription>
+                Les documents et dossiers supprimés restent restaurables pendant cette durée
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="retentionDays">Durée de conservation (jours)</Label>
+                <Input
+                  id="retentionDays"
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={retentionDays}
+                  onChange={(e) => setRetentionDays(e.target.value)}
+                  className="w-32"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Passé ce délai, ils sont supprimés définitivement, index du chatbot compris.
+                </p>
+              </div>
+
+              <div className="flex gap-2">
+                <Button onClick={handleSaveRetention} disabled={isSavingRetention || !retentionDays}>
+                  {isSavingRetention ? (
+                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                  ) : (
+                    <Save className="w-4 h-4 mr-2" />
+                  )}
+                  Enregistrer
+                </Button>
+                <Button variant="outline" asChild>
+                  <Link to="/trash">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Ouvrir la corbeille
+                  </Link>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Profile Card */}
         <Card className="border-border/50">
           <CardHeader>
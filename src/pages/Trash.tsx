@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { supabase } from '@/integrations/supabase/client';
+import AppLayout from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { purgeTrashItems, restoreTrashItem, type TrashItemType } from '@/lib/documents';
+import { formatFileSize } from '@/lib/utils';
+import { FileText, Folder, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+interface TrashItem {
+  item_type: TrashItemType;
+  id: string;
+  name: string;
+  file_type: string | null;
+  file_size: number | null;
+  document_count: number | null;
+  parent_name: string | null;
+  deleted_at: string;
+  deleted_by_name: string | null;
+  purge_at: string;
+}
+
+export default function Trash() {
+  const { canDeleteDocuments, loading: permLoading } = usePermissions();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Items awaiting confirmation before being deleted for good
+  const [purgeTarget, setPurgeTarget] = useState<TrashItem[] | null>(null);
+
+  useEffect(() => {
+    if (!permLoading && !canDeleteDocuments) {
+      navigate('/dashboard');
+    }
+  }, [canDeleteDocuments, permLoading, navigate]);
+
+  const fetchTrash = useCallback(async () => {
+    const [trashResult, settingsResult] = await Promise.all([
+      supabase.rpc('get_trash'),
+      supabase.from('app_settings').select('trash_retention_days').maybeSingle(),
+    ]);
+
+    if (trashResult.error) {
+      console.error('Error fetching trash:', trashResult.error);
+    }
+
+    setItems((trashResult.data || []) as TrashItem[]);
+    setRetentionDays(settingsResult.data?.trash_retention_days ?? null);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (canDeleteDocuments) fetchTrash();
+  }, [canDeleteDocuments, fetchTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+
+    try {
+      await restoreTrashItem(item.item_type, item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      toast({
+        title: item.item_type === 'folder' ? 'Dossier restauré' : 'Document restauré',
+        description: `"${item.name}" a été restauré.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de restaurer',
+        variant: 'destructive',
+      });
+    }
+
+    setBusyId(null);
+  };
+
+  const handlePurge = async () => {
+    if (!purgeTarget) return;
+    const targets = purgeTarget;
+    setPurgeTarget(null);
+
+    try {
+      await purgeTrashItems(targets.map(i => ({ type: i.item_type, id: i.id })));
+      // Deletion finishes in the background
+      const ids = new Set(targets.map(i => i.id));
+      setItems(prev => prev.filter(i => !ids.has(i.id)));
+      toast({
+        title: 'Suppression définitive lancée',
+        description: `${targets.length} élément${targets.length > 1 ? 's' : ''} en cours de suppression.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: (error as Error).message || 'Impossible de supprimer',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (permLoading || loading) {
+    return (
+      <AppLayout>
+        <div className="p-8 max-w-6xl mx-auto space-y-6">
+          <Skeleton className="h-10 w-64" />
+          <Skeleton className="h-96 w-full" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="p-8 max-w-6xl mx-auto space-y-8 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-semibold flex items-center gap-3">
+              <Trash2 className="w-8 h-8 text-primary" />
+              Corbeille
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              {retentionDays
+                ? `Les éléments sont supprimés définitivement après ${retentionDays} jour${retentionDays > 1 ? 's' : ''}`
+                : 'Documents et dossiers supprimés'}
+            </p>
+          </div>
+          <Button
+            variant="destructive"
+            onClick={() => setPurgeTarget(items)}
+            disabled={items.length === 0}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Vider la corbeille
+          </Button>
+        </div>
+
+        <Card className="border-border/50">
+          <CardHeader>
+            <CardTitle>Éléments ({items.length})</CardTitle>
+            <CardDescription>
+              Les éléments de la corbeille n'apparaissent plus dans les documents ni dans les réponses du chatbot
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nom</TableHead>
+                  <TableHead>Emplacement</TableHead>
+                  <TableHead>Supprimé</TableHead>
+                  <TableHead>Suppression définitive</TableHead>
+                  <TableHead className="w-56"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-3 min-w-0">
+                        {item.item_type === 'folder' ? (
+                          <Folder className="w-4 h-4 text-primary shrink-0" />
+                        ) : (
+                          <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="font-medium truncate" title={item.name}>{item.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {item.item_type === 'folder'
+                              ? `${item.document_count ?? 0} document${item.document_count === 1 ? '' : 's'}`
+                              : `${item.file_type?.toUpperCase()} · ${formatFileSize(item.file_size ?? 0)}`}
+                          </p>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {item.parent_name || 'Racine'}
+                    </TableCell>
+                    <TableCell>
+                      <p>{format(new Date(item.deleted_at), 'dd MMM yyyy HH:mm', { locale: fr })}</p>
+                      {item.deleted_by_name && (
+                        <p className="text-xs text-muted-foreground">par {item.deleted_by_name}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {format(new Date(item.purge_at), 'dd MMM yyyy', { locale: fr })}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(item)}
+                          disabled={busyId === item.id}
+                        >
+                          {busyId === item.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                          ) : (
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                          )}
+                          Restaurer
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setPurgeTarget([item])}
+                          disabled={busyId === item.id}
+                        >
+                          Supprimer
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {items.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                      La corbeille est vide
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer définitivement ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget?.length === 1
+                ? `"${purgeTarget[0].name}" sera supprimé définitivement, avec ses fichiers et son index.`
+                : `${purgeTarget?.length ?? 0} éléments seront supprimés définitivement, avec leurs fichiers et leur index.`}
+              {' '}Cette action est irréversible.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Supprimer définitivement
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
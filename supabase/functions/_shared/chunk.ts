@@ -0,0 +1,43 @@
+import type { ExtractedPage } from './extract.ts';
+
+export interface TextChunk {
+  chunk_index: number;
+  page: number | null;
+  content: string;
+}
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+
+// Prefer cutting on a paragraph, then a line, then a sentence boundary
+function findBreak(text: string, start: number, end: number): number {
+  if (end >= text.length) return text.length;
+  const window = text.slice(start, end);
+  for (const separator of ['\n\n', '\n', '. ']) {
+    const index = window.lastIndexOf(separator);
+    if (index > CHUNK_SIZE / 2) return start + index + separator.length;
+  }
+  return end;
+}
+
+// Split each page into overlapping chunks so a chunk never spans two pages
+export function chunkPages(pages: ExtractedPage[]): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  for (const { page, text } of pages) {
+    const normalized = text.replace(/\r\n/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+    let start = 0;
+
+    while (start < normalized.length) {
+      const end = findBreak(normalized, start, start + CHUNK_SIZE);
+      const content = normalized.slice(start, end).trim();
+      if (content) {
+        chunks.push({ chunk_index: chunks.length, page, content });
+      }
+      if (end >= normalized.length) break;
+      start = Math.max(end - CHUNK_OVERLAP, start + 1);
+    }
+  }
+
+  return chunks;
+}
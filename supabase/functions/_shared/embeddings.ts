@@ -0,0 +1,103 @@
+// Must match the vector(384) column on document_chunks
+export const EMBEDDING_DIMENSIONS = 384;
+
+export interface EmbeddingProvider {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const OPENAI_BATCH_SIZE = 96;
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+// Deterministic feature-hashing embedder for development: no network, no key,
+// and the same text always maps to the same vector. Captures lexical overlap
+// only, so it is not a substitute for a real model in production.
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = tokenize(text);
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+    for (const feature of features) {
+      const h = hash(feature);
+      vector[h % EMBEDDING_DIMENSIONS] += (h & 0x80000000) === 0 ? 1 : -1;
+    }
+    return normalize(vector);
+  };
+
+  return {
+    name: 'local',
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+export function createOpenAIEmbeddingProvider(apiKey: string): EmbeddingProvider {
+  return {
+    name: 'openai',
+    embed: async (texts) => {
+      const embeddings: number[][] = [];
+
+      for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+        const response = await fetch('https://api.openai.com/v1/embeddings', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model: OPENAI_EMBEDDING_MODEL,
+            input: texts.slice(i, i + OPENAI_BATCH_SIZE),
+            dimensions: EMBEDDING_DIMENSIONS,
+          }),
+        });
+
+        if (!response.ok) {
+          console.error('OpenAI embeddings error:', response.status);
+          throw new Error('Failed to compute embeddings');
+        }
+
+        const { data } = await response.json();
+        embeddings.push(...data.map((item: { embedding: number[] }) => item.embedding));
+      }
+
+      return embeddings;
+    },
+  };
+}
+
+// Selected with EMBEDDING_PROVIDER ('local' by default, or 'openai')
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const provider = Deno.env.get('EMBEDDING_PROVIDER') ?? 'local';
+
+  if (provider === 'openai') {
+    const apiKey = Deno.env.get('OPENAI_API_KEY');
+    if (!apiKey) throw new Error('OPENAI_API_KEY is required for the openai embedding provider');
+    return createOpenAIEmbeddingProvider(apiKey);
+  }
+
+  return createLocalEmbeddingProvider();
+}
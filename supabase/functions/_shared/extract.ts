@@ -0,0 +1,71 @@
+import { extractText as extractPdfText, getDocumentProxy } from "https://esm.sh/unpdf@1.4.0";
+import { strFromU8, unzipSync } from "https://esm.sh/fflate@0.8.2";
+
+export interface ExtractedPage {
+  // 1-based page number for paginated formats, null otherwise
+  page: number | null;
+  text: string;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity]);
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<ExtractedPage[]> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractPdfText(pdf, { mergePages: false });
+  return (text as string[]).map((pageText, i) => ({ page: i + 1, text: pageText }));
+}
+
+// A .docx is a zip archive; the body lives in word/document.xml
+function extractDocx(bytes: Uint8Array): ExtractedPage[] {
+  const files = unzipSync(bytes, { filter: (file) => file.name === 'word/document.xml' });
+  const xml = files['word/document.xml'];
+  if (!xml) throw new Error('Invalid DOCX file: missing word/document.xml');
+
+  const text = strFromU8(xml)
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return [{ page: null, text: decodeXmlEntities(text) }];
+}
+
+// Flatten JSON into "path: value" lines so each value keeps its context
+function flattenJson(value: unknown, path = ''): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => flattenJson(item, `${path}[${i}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => flattenJson(item, path ? `${path}.${key}` : key));
+  }
+  return [`${path || 'value'}: ${String(value)}`];
+}
+
+export async function extractText(file: Blob, fileType: string): Promise<ExtractedPage[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  switch (fileType) {
+    case 'pdf':
+      return await extractPdf(bytes);
+    case 'docx':
+      return extractDocx(bytes);
+    case 'json':
+      return [{ page: null, text: flattenJson(JSON.parse(new TextDecoder().decode(bytes))).join('\n') }];
+    case 'txt':
+    case 'md':
+    case 'csv':
+      return [{ page: null, text: new TextDecoder().decode(bytes) }];
+    default:
+      throw new Error(`Unsupported file type: ${fileType}`);
+  }
+}
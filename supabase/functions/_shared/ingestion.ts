@@ -0,0 +1,154 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractText } from './extract.ts';
+import { chunkPages } from './chunk.ts';
+import { getEmbeddingProvider } from './embeddings.ts';
+import { deleteFromN8n, sendToN8nIngestion } from './n8n.ts';
+import { getNextRetryAt } from './retry.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface IngestableDocument {
+  id: string;
+  user_id: string;
+  name: string;
+  file_path: string;
+  file_type: string;
+  ingestion_backend: string;
+  ingestion_attempts: number;
+  description: string | null;
+  document_tags: { tags: { name: string } }[];
+  language: string | null;
+  effective_date: string | null;
+}
+
+// Columns to select for an IngestableDocument
+export const INGESTABLE_DOCUMENT_COLUMNS =
+  'id, user_id, name, file_path, file_type, ingestion_backend, ingestion_attempts, description, language, effective_date, document_tags(tags(name))';
+
+const INSERT_BATCH_SIZE = 100;
+
+// Extract, chunk and store a document with the in-repo pipeline, moving its
+// status through processing -> ingested/error. Expects a service role client.
+export async function runLocalIngestion(admin: SupabaseClient, document: IngestableDocument): Promise<void> {
+  const report = (update: Record<string, unknown>) =>
+    admin.from('documents').update(update).eq('id', document.id);
+
+  await report({ status: 'processing', ingestion_progress: 0, error_message: null });
+
+  try {
+    const { data: file, error: downloadError } = await admin.storage
+      .from('documents')
+      .download(document.file_path);
+
+    if (downloadError || !file) {
+      throw new Error(`Failed to download file: ${downloadError?.message ?? 'not found'}`);
+    }
+
+    const pages = await extractText(file, document.file_type);
+    const chunks = chunkPages(pages);
+    const pageCount = pages.some(p => p.page !== null) ? pages.length : null;
+    await report({ ingestion_progress: 20, page_count: pageCount });
+
+    if (chunks.length === 0) {
+      throw new Error('No text could be extracted from the document');
+    }
+
+    const embeddingProvider = getEmbeddingProvider();
+    const embeddings = await embeddingProvider.embed(chunks.map(chunk => chunk.content));
+    await report({ ingestion_progress: 60 });
+
+    // Replace the chunks of a previous run
+    const { error: deleteError } = await admin
+      .from('document_chunks')
+      .delete()
+      .eq('document_id', document.id);
+
+    if (deleteError) throw deleteError;
+
+    for (let i = 0; i < chunks.length; i += INSERT_BATCH_SIZE) {
+      const { error: insertError } = await admin
+        .from('document_chunks')
+        .insert(chunks.slice(i, i + INSERT_BATCH_SIZE).map((chunk, j) => ({
+          ...chunk,
+          document_id: document.id,
+          embedding: JSON.stringify(embeddings[i + j]),
+        })));
+
+      if (insertError) throw insertError;
+
+      const inserted = Math.min(i + INSERT_BATCH_SIZE, chunks.length);
+      await report({ ingestion_progress: 60 + Math.floor((inserted / chunks.length) * 39) });
+    }
+
+    await report({ status: 'ingested', ingestion_progress: 100, chunk_count: chunks.length });
+    console.log(`Ingested document ${document.id} into ${chunks.length} chunk(s) with ${embeddingProvider.name} embeddings`);
+  } catch (error) {
+    console.error(`Ingestion failed for document ${document.id}:`, error);
+    await markIngestionFailed(admin, document.id, document.ingestion_attempts, (error as Error).message);
+  }
+}
+
+// Record a failed run and schedule the next automatic retry, if any is left
+export async function markIngestionFailed(
+  admin: SupabaseClient,
+  documentId: string,
+  attempts: number,
+  message?: string,
+): Promise<void> {
+  await admin
+    .from('documents')
+    .update({
+      status: 'error',
+      ingestion_progress: null,
+      error_message: message || 'Ingestion failed',
+      next_retry_at: getNextRetryAt(attempts),
+    })
+    .eq('id', documentId);
+}
+
+// Start a new ingestion run on the document's backend and count the attempt.
+// A manual retry resets the counter so the backoff starts over. n8n vectors
+// are keyed on the file: when a new version replaces it, `previous` is the
+// document as it was, whose vectors are dropped.
+export async function dispatchIngestion(
+  admin: SupabaseClient,
+  document: IngestableDocument,
+  { resetAttempts = false, previous }: { resetAttempts?: boolean; previous?: IngestableDocument } = {},
+): Promise<void> {
+  const attempts = (resetAttempts ? 0 : document.ingestion_attempts) + 1;
+  const runId = crypto.randomUUID();
+
+  await admin
+    .from('documents')
+    .update({
+      status: 'pending',
+      ingestion_attempts: attempts,
+      ingestion_run_id: runId,
+      ingestion_progress: null,
+      error_message: null,
+      next_retry_at: null,
+    })
+    .eq('id', document.id);
+
+  if (document.ingestion_backend === 'local') {
+    await runLocalIngestion(admin, { ...document, ingestion_attempts: attempts });
+    return;
+  }
+
+  try {
+    const { data: file, error: downloadError } = await admin.storage
+      .from('documents')
+      .download(document.file_path);
+
+    if (downloadError || !file) {
+      throw new Error(`Failed to download file: ${downloadError?.message ?? 'not found'}`);
+    }
+
+    // Drop the vectors of the previous run before ingesting again
+    await deleteFromN8n(previous ?? document);
+    await sendToN8nIngestion({ ...document, tags: document.document_tags.map(dt => dt.tags.name) }, file, runId);
+  } catch (error) {
+    console.error(`Failed to dispatch document ${document.id} to n8n:`, error);
+    await markIngestionFailed(admin, document.id, attempts, (error as Error).message);
+  }
+}
@@ -0,0 +1,60 @@
+export const N8N_UPLOAD_WEBHOOK = 'https://n8n.flowfyr.com/webhook/ffbbfdb5-c92b-4ee1-8ada-6065344c4925';
+export const N8N_DELETE_WEBHOOK = 'https://n8n.flowfyr.com/webhook/46936ab8-b9e3-4253-80c9-b003f7adcfc6';
+
+export interface N8nDocument {
+  id: string;
+  user_id: string;
+  name: string;
+  file_path: string;
+  // Editable metadata, stored with the vectors for filtering and display
+  description?: string | null;
+  tags?: string[];
+  language?: string | null;
+  effective_date?: string | null;
+}
+
+export function getIngestionCallbackUrl(): string {
+  return `${Deno.env.get('SUPABASE_URL')}/functions/v1/ingestion-callback`;
+}
+
+// Send a stored file to the n8n ingestion workflow. The workflow echoes
+// run_id in its callbacks so those of an earlier run are ignored.
+export async function sendToN8nIngestion(document: N8nDocument, file: Blob, runId: string): Promise<void> {
+  const formData = new FormData();
+  formData.append('data', file, document.name);
+  formData.append('user_id', document.user_id);
+  formData.append('file_path', document.file_path);
+  formData.append('file_name', document.name);
+  formData.append('document_id', document.id);
+  formData.append('run_id', runId);
+  formData.append('callback_url', getIngestionCallbackUrl());
+  formData.append('metadata', JSON.stringify({
+    description: document.description ?? null,
+    tags: document.tags ?? [],
+    language: document.language ?? null,
+    effective_date: document.effective_date ?? null,
+  }));
+
+  const response = await fetch(N8N_UPLOAD_WEBHOOK, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw new Error(`n8n ingestion webhook error: ${response.status}`);
+  }
+}
+
+// Remove the vectors n8n stored for a document
+export async function deleteFromN8n(document: N8nDocument): Promise<void> {
+  await fetch(N8N_DELETE_WEBHOOK, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      user_id: document.user_id,
+      file_path: document.file_path,
+      file_name: document.name,
+      document_id: document.id,
+    }),
+  });
+}
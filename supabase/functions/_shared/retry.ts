@@ -0,0 +1,13 @@
+// Retry policy for failed ingestions: exponential backoff from one minute,
+// capped at six hours, until MAX_INGESTION_ATTEMPTS runs have failed.
+export const MAX_INGESTION_ATTEMPTS = 5;
+
+const BASE_DELAY_MS = 60 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// When to try again after the given number of attempts, or null to give up
+export function getNextRetryAt(attempts: number, now = new Date()): string | null {
+  if (attempts >= MAX_INGESTION_ATTEMPTS) return null;
+  const delay = Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS);
+  return new Date(now.getTime() + delay).toISOString();
+}
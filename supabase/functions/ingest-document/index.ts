@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { INGESTABLE_DOCUMENT_COLUMNS, dispatchIngestion } from '../_shared/ingestion.ts';
+
+// Provided by the Supabase edge runtime to keep work alive after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      console.error('Missing authorization header');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    
+    if (authError || !user) {
+      console.error('Authentication failed:', authError?.message);
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse request body
+    const body = await req.json();
+    const { document_id } = body;
+
+    if (!document_id || typeof document_id !== 'string') {
+      return new Response(JSON.stringify({ error: 'Missing required field: document_id' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Load the document through the caller's client so RLS checks access
+    const { data: document } = await supabaseClient
+      .from('documents')
+      .select(INGESTABLE_DOCUMENT_COLUMNS)
+      .eq('id', document_id)
+      .maybeSingle();
+
+    if (!document) {
+      return new Response(JSON.stringify({ error: 'Document not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Readers of a shared folder see the document too: only its uploader and
+    // editors may ingest it again, as with retry-ingestion
+    if (document.user_id !== user.id) {
+      const { data: isEditor } = await supabaseClient.rpc('has_role_or_higher', {
+        _user_id: user.id,
+        _min_role: 'editor',
+      });
+
+      if (!isEditor) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    if (document.ingestion_backend !== 'local') {
+      return new Response(JSON.stringify({ error: 'Document is ingested by n8n' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    console.log(`Starting local ingestion for user ${user.id}, document: ${document.id}, type: ${document.file_type}`);
+
+    // Extraction can take a while: answer now and keep ingesting in background
+    EdgeRuntime.waitUntil(dispatchIngestion(adminClient, document));
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in ingest-document function:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
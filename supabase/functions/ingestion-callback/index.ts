@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getNextRetryAt } from '../_shared/retry.ts';
+
+// Called server-to-server by the ingestion worker, authenticated with an
+// HMAC-SHA256 signature of `${X-Timestamp}.${raw body}` sent as
+// `X-Signature: sha256=<hex>` and keyed with INGESTION_CALLBACK_SECRET.
+// Each callback carries the run_id it was dispatched with; callbacks of an
+// earlier run, e.g. after a retry or a new version, are acknowledged and
+// ignored.
+
+const jsonHeaders = { 'Content-Type': 'application/json' };
+
+const VALID_STATUSES = ['pending', 'processing', 'ingested', 'error'];
+const MAX_CLOCK_SKEW_SECONDS = 300;
+const MAX_ERROR_MESSAGE_LENGTH = 2000;
+
+async function sign(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Constant-time comparison to avoid leaking the expected signature
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function optionalCount(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  return Number.isInteger(value) && (value as number) >= 0 ? (value as number) : null;
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: jsonHeaders });
+  }
+
+  try {
+    const secret = Deno.env.get('INGESTION_CALLBACK_SECRET');
+    if (!secret) {
+      console.error('INGESTION_CALLBACK_SECRET is not configured');
+      return new Response(JSON.stringify({ error: 'Callback not configured' }), { status: 500, headers: jsonHeaders });
+    }
+
+    // Verify signature on the raw body before parsing it
+    const rawBody = await req.text();
+    const timestamp = req.headers.get('X-Timestamp') ?? '';
+    const signature = (req.headers.get('X-Signature') ?? '').replace(/^sha256=/, '');
+
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!timestamp || !Number.isFinite(age) || age > MAX_CLOCK_SKEW_SECONDS) {
+      console.error('Rejected callback with missing or stale timestamp');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: jsonHeaders });
+    }
+
+    const expected = await sign(secret, `${timestamp}.${rawBody}`);
+    if (!safeEqual(signature, expected)) {
+      console.error('Rejected callback with invalid signature');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: jsonHeaders });
+    }
+
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON body' }), { status: 400, headers: jsonHeaders });
+    }
+    const { document_id, run_id, status, progress, page_count, chunk_count, error_message } = body ?? {};
+
+    if (
+      !document_id || typeof document_id !== 'string' ||
+      !run_id || typeof run_id !== 'string' ||
+      !VALID_STATUSES.includes(status)
+    ) {
+      return new Response(JSON.stringify({ error: 'Missing or invalid fields: document_id, run_id, status' }), {
+        status: 400,
+        headers: jsonHeaders,
+      });
+    }
+
+    const update: Record<string, unknown> = {
+      status,
+      // Progress is only meaningful while processing; completion pins it
+      ingestion_progress: status === 'ingested'
+        ? 100
+        : typeof progress === 'number' ? Math.min(100, Math.max(0, Math.round(progress))) : null,
+      error_message: status === 'error'
+        ? String(error_message || 'Ingestion failed').slice(0, MAX_ERROR_MESSAGE_LENGTH)
+        : null,
+    };
+    const pages = optionalCount(page_count);
+    const chunks = optionalCount(chunk_count);
+    if (pages !== undefined) update.page_count = pages;
+    if (chunks !== undefined) update.chunk_count = chunks;
+
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: document } = await adminClient
+      .from('documents')
+      .select('id, ingestion_attempts, ingestion_run_id')
+      .eq('id', document_id)
+      .maybeSingle();
+
+    if (!document) {
+      return new Response(JSON.stringify({ error: 'Document not found' }), { status: 404, headers: jsonHeaders });
+    }
+
+    if (document.ingestion_run_id !== run_id) {
+      console.log(`Ignored stale callback for document ${document_id}: ${status}`);
+      return new Response(JSON.stringify({ success: true, ignored: true }), { headers: jsonHeaders });
+    }
+
+    // Failed runs are retried automatically with exponential backoff
+    update.next_retry_at = status === 'error' ? getNextRetryAt(document.ingestion_attempts) : null;
+
+    // A run started since the check above wins
+    const { error } = await adminClient
+      .from('documents')
+      .update(update)
+      .eq('id', document_id)
+      .eq('ingestion_run_id', run_id);
+
+    if (error) throw error;
+
+    console.log(`Ingestion callback for document ${document_id}: ${status}`);
+
+    return new Response(JSON.stringify({ success: true }), { headers: jsonHeaders });
+
+  } catch (error) {
+    console.error('Error in ingestion-callback function:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message || 'Internal server error' }), {
+      status: 500,
+      headers: jsonHeaders,
+    });
+  }
+});
@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractText } from "../_shared/extract.ts";
+import { fetchAllRows } from "../_shared/pagination.ts";
+
+// Provided by the Supabase edge runtime to keep work alive after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,6 +14,568 @@ const corsHeaders = {
 const N8N_CHAT_WEBHOOK = 'https://n8n.flowfyr.com/webhook/baa3f90a-7116-440a-9d5f-06e44505094e';
 const MAX_MESSAGE_LENGTH = 4000;
 const MAX_HISTORY_MESSAGES = 50;
+// Earlier versions are not in the vector store; their text is sent inline.
+// The conversations table enforces the same limit.
+const MAX_SCOPED_VERSIONS = 3;
+const MAX_VERSION_CONTEXT_LENGTH = 30000;
+const MAX_TITLE_LENGTH = 80;
+// Excerpt of the first exchange sent to generate the title
+const MAX_TITLE_CONTEXT_LENGTH = 2000;
+const EMPTY_ANSWER = 'Je n\'ai pas pu générer de réponse.';
+
+// Normalize the different payload shapes the n8n workflow can answer with
+function extractOutput(data: unknown): string {
+  if (typeof data === 'string') return data;
+  if (Array.isArray(data)) {
+    return data.length > 0 ? extractOutput(data[0]) : '';
+  }
+  if (data && typeof data === 'object') {
+    const record = data as Record<string, unknown>;
+    for (const key of ['output', 'text', 'message', 'response']) {
+      if (typeof record[key] === 'string') return record[key] as string;
+    }
+  }
+  return JSON.stringify(data);
+}
+
+interface Citation {
+  document_id: string | null;
+  document_name: string | null;
+  chunk_index: number | null;
+  page: number | null;
+  snippet: string | null;
+  score: number | null;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface StoredMessage {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+}
+
+interface AccessibleDocument {
+  id: string;
+  name: string;
+  folder_id: string | null;
+}
+
+interface ChatScope {
+  // When true, retrieval must stay within the lists below even if they are
+  // empty (every scoped item became inaccessible)
+  restricted: boolean;
+  folder_ids: string[];
+  document_ids: string[];
+  version_ids: string[];
+  // Every accessible document carrying one of these tags
+  tags: { id: string; name: string }[];
+}
+
+interface ScopedVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  file_name: string;
+  file_path: string;
+  file_type: string;
+  extracted_text: string | null;
+}
+
+interface DocumentMetadata {
+  id: string;
+  description: string | null;
+  tags: string[];
+  language: string | null;
+  effective_date: string | null;
+}
+
+interface VersionContext {
+  document_id: string;
+  version_id: string;
+  version_number: number;
+  name: string;
+  content: string;
+}
+
+// Raised when the conversation is scoped to more versions than can be sent
+class ScopeLimitError extends Error {
+  constructor() {
+    super(`A chat can be scoped to at most ${MAX_SCOPED_VERSIONS} document versions`);
+    this.name = 'ScopeLimitError';
+  }
+}
+
+// Raised when the workflow cites a document the caller is not allowed to see,
+// or one without a known document id
+class CitationAccessError extends Error {
+  constructor() {
+    super('Response rejected: it cites a document outside of your access scope');
+    this.name = 'CitationAccessError';
+  }
+}
+
+// Raised when a streaming workflow sends answer text before its sources, which
+// could then not be checked before the text reaches the client
+class SourcesOrderError extends Error {
+  constructor() {
+    super('Chatbot workflow error: sources must be sent before the answer text');
+    this.name = 'SourcesOrderError';
+  }
+}
+
+// Documents the caller may retrieve from, following folder access rules
+async function getAccessibleDocuments(supabaseClient: SupabaseClient): Promise<Map<string, AccessibleDocument>> {
+  try {
+    const documents = await fetchAllRows<AccessibleDocument>((from, to) =>
+      supabaseClient.rpc('get_accessible_documents').order('id').range(from, to));
+    return new Map(documents.map(d => [d.id, d]));
+  } catch (error) {
+    console.error('Failed to load accessible documents:', (error as Error).message);
+    throw new Error('Failed to resolve document access');
+  }
+}
+
+// Load the scope saved on the conversation and drop every folder or document
+// the caller cannot see. Tags are expanded to the documents carrying them.
+async function resolveScope(
+  supabaseClient: SupabaseClient,
+  conversationId: unknown,
+  accessible: Map<string, AccessibleDocument>,
+): Promise<{ scope: ChatScope; versions: ScopedVersion[]; taggedDocumentIds: Set<string> }> {
+  const scope: ChatScope = { restricted: false, folder_ids: [], document_ids: [], version_ids: [], tags: [] };
+  const taggedDocumentIds = new Set<string>();
+  if (typeof conversationId !== 'string') return { scope, versions: [], taggedDocumentIds };
+
+  const { data: conversation } = await supabaseClient
+    .from('conversations')
+    .select('scope_folder_ids, scope_document_ids, scope_version_ids, scope_tag_ids')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (!conversation) return { scope, versions: [], taggedDocumentIds };
+  scope.restricted = conversation.scope_folder_ids.length > 0 ||
+    conversation.scope_document_ids.length > 0 ||
+    conversation.scope_version_ids.length > 0 ||
+    conversation.scope_tag_ids.length > 0;
+
+  if (conversation.scope_folder_ids.length > 0) {
+    // Folder RLS applies through the caller's client. A selected folder
+    // includes its visible sub-folders.
+    const visible = await fetchAllRows<{ id: string; parent_id: string | null }>((from, to) => supabaseClient
+      .from('folders')
+      .select('id, parent_id')
+      .order('id')
+      .range(from, to));
+    const selected = new Set<string>(conversation.scope_folder_ids.filter((id: string) => visible.some(f => f.id === id)));
+
+    let added = true;
+    while (added) {
+      added = false;
+      for (const folder of visible) {
+        if (folder.parent_id && selected.has(folder.parent_id) && !selected.has(folder.id)) {
+          selected.add(folder.id);
+          added = true;
+        }
+      }
+    }
+    scope.folder_ids = [...selected];
+  }
+  scope.document_ids = conversation.scope_document_ids.filter((id: string) => accessible.has(id));
+
+  // Version RLS follows the document; the access map double-checks it
+  let versions: ScopedVersion[] = [];
+  if (conversation.scope_version_ids.length > MAX_SCOPED_VERSIONS) {
+    throw new ScopeLimitError();
+  }
+  if (conversation.scope_version_ids.length > 0) {
+    const { data } = await supabaseClient
+      .from('document_versions')
+      .select('id, document_id, version_number, file_name, file_path, file_type, extracted_text')
+      .in('id', conversation.scope_version_ids);
+    versions = ((data ?? []) as ScopedVersion[]).filter(v => accessible.has(v.document_id));
+    scope.version_ids = versions.map(v => v.id);
+  }
+
+  // document_tags RLS only returns accessible documents
+  if (conversation.scope_tag_ids.length > 0) {
+    const [tagsResult, documentTagsResult] = await Promise.all([
+      supabaseClient.from('tags').select('id, name').in('id', conversation.scope_tag_ids),
+      supabaseClient.from('document_tags').select('document_id').in('tag_id', conversation.scope_tag_ids),
+    ]);
+    scope.tags = (tagsResult.data ?? []) as { id: string; name: string }[];
+    for (const row of (documentTagsResult.data ?? []) as { document_id: string }[]) {
+      if (accessible.has(row.document_id)) taggedDocumentIds.add(row.document_id);
+    }
+  }
+  return { scope, versions, taggedDocumentIds };
+}
+
+// Metadata of the allowed documents that have any, for the workflow to filter
+// and display sources. RLS limits the rows to accessible documents.
+async function getDocumentMetadata(
+  supabaseClient: SupabaseClient,
+  allowedIds: Set<string>,
+): Promise<DocumentMetadata[]> {
+  type Row = Omit<DocumentMetadata, 'tags'> & { document_tags: { tags: { name: string } }[] };
+  let rows: Row[];
+  try {
+    rows = await fetchAllRows<Row>((from, to) => supabaseClient
+      .from('documents')
+      .select('id, description, language, effective_date, document_tags(tags(name))')
+      .order('id')
+      .range(from, to));
+  } catch (error) {
+    console.error('Failed to load document metadata:', (error as Error).message);
+    return [];
+  }
+
+  return rows
+    .filter(d => allowedIds.has(d.id))
+    .map(({ document_tags, ...d }) => ({ ...d, tags: document_tags.map(dt => dt.tags.name) }))
+    .filter(d => d.description || d.language || d.effective_date || d.tags.length > 0);
+}
+
+// Text of the scoped versions. A version is extracted once, from the file read
+// with the caller's storage access, and its text is kept on the version.
+async function loadVersionContext(
+  supabaseClient: SupabaseClient,
+  adminClient: SupabaseClient,
+  versions: ScopedVersion[],
+  accessible: Map<string, AccessibleDocument>,
+): Promise<VersionContext[]> {
+  const budget = Math.floor(MAX_VERSION_CONTEXT_LENGTH / Math.max(versions.length, 1));
+
+  const extract = async (version: ScopedVersion): Promise<string | null> => {
+    if (version.extracted_text !== null) return version.extracted_text;
+
+    const { data: file, error } = await supabaseClient.storage
+      .from('documents')
+      .download(version.file_path);
+    if (error || !file) {
+      console.error(`Failed to download version ${version.id}:`, error?.message);
+      return null;
+    }
+
+    try {
+      const pages = await extractText(file, version.file_type);
+      const text = pages.map(p => p.text).join('\n\n').slice(0, MAX_VERSION_CONTEXT_LENGTH);
+      const { error: cacheError } = await adminClient
+        .from('document_versions')
+        .update({ extracted_text: text })
+        .eq('id', version.id);
+      if (cacheError) console.error(`Failed to cache version ${version.id}:`, cacheError.message);
+      return text;
+    } catch (error) {
+      console.error(`Failed to extract version ${version.id}:`, (error as Error).message);
+      return null;
+    }
+  };
+
+  const contexts = await Promise.all(versions.map(async (version) => {
+    const text = await extract(version);
+    if (text === null) return null;
+    return {
+      document_id: version.document_id,
+      version_id: version.id,
+      version_number: version.version_number,
+      name: accessible.get(version.document_id)?.name ?? version.file_name,
+      content: text.slice(0, budget),
+    };
+  }));
+
+  return contexts.filter((c): c is VersionContext => c !== null);
+}
+
+// Mandatory retrieval filter: every accessible document, narrowed to the scope
+function getAllowedDocumentIds(
+  accessible: Map<string, AccessibleDocument>,
+  scope: ChatScope,
+  taggedDocumentIds: Set<string>,
+): string[] {
+  const documents = [...accessible.values()];
+  if (!scope.restricted) return documents.map(d => d.id);
+
+  return documents
+    .filter(d =>
+      scope.document_ids.includes(d.id) ||
+      (d.folder_id !== null && scope.folder_ids.includes(d.folder_id)) ||
+      taggedDocumentIds.has(d.id)
+    )
+    .map(d => d.id);
+}
+
+// Sources can be returned as `citations` or `sources`, either at the top level
+// or on the first item when the workflow answers with an array
+function extractRawCitations(data: unknown): unknown[] {
+  const record = (Array.isArray(data) ? data[0] : data) as Record<string, unknown> | undefined;
+  if (!record || typeof record !== 'object') return [];
+  const raw = record.citations ?? record.sources;
+  return Array.isArray(raw) ? raw : [];
+}
+
+function toNumber(value: unknown): number | null {
+  const num = typeof value === 'string' ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : null;
+}
+
+function toText(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+// Map the vector store documents returned by n8n to our citation model
+function normalizeCitation(raw: unknown): Citation | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const item = raw as Record<string, unknown>;
+  const metadata = (item.metadata && typeof item.metadata === 'object' ? item.metadata : {}) as Record<string, unknown>;
+  const loc = (metadata.loc && typeof metadata.loc === 'object' ? metadata.loc : {}) as Record<string, unknown>;
+
+  const citation: Citation = {
+    document_id: toText(item.document_id ?? metadata.document_id),
+    document_name: toText(item.document_name ?? item.file_name ?? metadata.file_name),
+    chunk_index: toNumber(item.chunk_index ?? metadata.chunk_index),
+    page: toNumber(item.page ?? metadata.page ?? loc.pageNumber),
+    snippet: toText(item.snippet ?? item.content ?? item.pageContent)?.slice(0, 1000) ?? null,
+    score: toNumber(item.score ?? metadata.score),
+  };
+
+  return citation.document_id || citation.document_name ? citation : null;
+}
+
+// Normalize citations, check them against the retrieval filter and use the
+// current document names. A citation that cannot be traced to an allowed
+// document id rejects the whole answer.
+function resolveCitations(
+  rawCitations: unknown[],
+  accessible: Map<string, AccessibleDocument>,
+  allowedIds: Set<string>,
+): Citation[] {
+  const citations = rawCitations.map(normalizeCitation);
+
+  if (citations.some(c => !c?.document_id || !allowedIds.has(c.document_id))) {
+    throw new CitationAccessError();
+  }
+
+  return (citations as Citation[]).map(c => ({
+    ...c,
+    document_name: accessible.get(c.document_id as string)?.name ?? c.document_name,
+  }));
+}
+
+// Store the answer as a reply to its question. The message goes through the
+// caller's client, so RLS and the parent check apply; its sources are only
+// written here, with the service role, once resolveCitations accepted them.
+async function saveAnswer(
+  supabaseClient: SupabaseClient,
+  adminClient: SupabaseClient,
+  conversationId: string,
+  userId: string,
+  questionId: string,
+  output: string,
+  citations: Citation[],
+): Promise<StoredMessage | null> {
+  const { data: message, error } = await supabaseClient
+    .from('chat_messages')
+    .insert({
+      conversation_id: conversationId,
+      user_id: userId,
+      parent_id: questionId,
+      role: 'assistant',
+      content: output || EMPTY_ANSWER,
+    })
+    .select('id, parent_id, created_at')
+    .single();
+
+  if (error || !message) {
+    console.error('Failed to store chat answer:', error?.message);
+    return null;
+  }
+  if (citations.length === 0) return message as StoredMessage;
+
+  const { error: citationsError } = await adminClient.from('message_citations').insert(
+    citations.map((citation, index) => ({
+      message_id: message.id,
+      position: index + 1,
+      document_id: citation.document_id,
+      document_name: citation.document_name,
+      chunk_index: citation.chunk_index,
+      page: citation.page,
+      snippet: citation.snippet,
+      score: citation.score,
+    }))
+  );
+  if (citationsError) console.error('Failed to store citations:', citationsError.message);
+  return message as StoredMessage;
+}
+
+// First line of the model answer, without quotes, Markdown or final period
+function cleanTitle(raw: string): string {
+  const line = raw.split('\n').map(l => l.trim()).find(Boolean) ?? '';
+  const unquote = (value: string) => value.replace(/^[#*_"'«»“”\s]+|[*_"'«»“”\s.]+$/g, '');
+  const title = unquote(unquote(line).replace(/^(titre|title)\s*:[*_\s]*/i, ''));
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
+
+// Names the conversation after its first exchange, through the same workflow
+// with task 'title'. A title is generated only once, so regenerating or editing
+// the first question keeps it. A title renamed by the user is locked and never
+// replaced, even when the rename happens while the title is generated.
+async function generateTitle(
+  supabaseClient: SupabaseClient,
+  conversationId: string,
+  userId: string,
+  question: string,
+  answer: string,
+): Promise<void> {
+  try {
+    const { data: conversation } = await supabaseClient
+      .from('conversations')
+      .select('title_locked, title_generated')
+      .eq('id', conversationId)
+      .maybeSingle();
+    if (!conversation || conversation.title_locked || conversation.title_generated) return;
+
+    const response = await fetch(N8N_CHAT_WEBHOOK, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        task: 'title',
+        text: 'Donne un titre court (6 mots maximum), sans guillemets ni ponctuation finale, ' +
+          'dans la langue de la question, à cette conversation. Réponds uniquement par le titre.\n\n' +
+          `Question : ${question.slice(0, MAX_TITLE_CONTEXT_LENGTH)}\n\n` +
+          `Réponse : ${answer.slice(0, MAX_TITLE_CONTEXT_LENGTH)}`,
+        user_id: userId,
+        conversation_history: [],
+        allowed_document_ids: [],
+        stream: false,
+      }),
+    });
+    if (!response.ok) {
+      console.error('n8n title generation error:', response.status);
+      return;
+    }
+
+    const title = cleanTitle(extractOutput(await response.json()));
+    if (!title) return;
+
+    const { error } = await supabaseClient
+      .from('conversations')
+      .update({ title, title_generated: true })
+      .eq('id', conversationId)
+      .eq('title_locked', false)
+      .eq('title_generated', false);
+    if (error) console.error('Failed to save conversation title:', error.message);
+  } catch (error) {
+    console.error('Error while generating conversation title:', (error as Error).message);
+  }
+}
+
+// Relay the n8n answer to the client as Server-Sent Events. n8n streams
+// NDJSON lines ({ type: 'item', content }) when the workflow has streaming
+// enabled; a plain JSON answer is relayed as a single token. No text leaves
+// the server before the sources passed the access check, so a streaming
+// workflow must send its `citations` line (empty when no document was
+// retrieved) before the first `item`: retrieval comes before generation.
+// Tokens are then relayed as they arrive. Text arriving first is not held
+// back, which would turn streaming into a full buffer: the answer fails with
+// an `error` event instead, like a failed check. onComplete receives the full
+// answer and its sources; the message it stores is sent with `done`.
+function streamResponse(
+  upstream: Response,
+  checkCitations: (raw: unknown[]) => Citation[],
+  onComplete: (output: string, citations: Citation[]) => Promise<StoredMessage | null>,
+): Response {
+  const encoder = new TextEncoder();
+  const isNdjson = !(upstream.headers.get('Content-Type') ?? '').includes('application/json');
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      let output = '';
+      let citations: Citation[] = [];
+      let approved = false;
+
+      const emit = (content: string) => {
+        if (!approved) throw new SourcesOrderError();
+        output += content;
+        send({ type: 'token', content });
+      };
+
+      // Throws CitationAccessError for sources the caller cannot see
+      const approve = (raw: unknown[]) => {
+        citations = checkCitations(raw);
+        approved = true;
+      };
+
+      try {
+        if (!isNdjson || !upstream.body) {
+          const data = await upstream.json();
+          approve(extractRawCitations(data));
+          emit(extractOutput(data));
+        } else {
+          const reader = upstream.body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = '';
+
+          const handleLine = (line: string) => {
+            if (!line.trim()) return;
+            let chunk: { type?: string; content?: unknown; citations?: unknown };
+            try {
+              chunk = JSON.parse(line);
+            } catch {
+              // Non-JSON line: treat it as raw text
+              emit(line);
+              return;
+            }
+            if (chunk.type === 'item' && typeof chunk.content === 'string') {
+              emit(chunk.content);
+            } else if (chunk.type === 'citations' && Array.isArray(chunk.citations)) {
+              // A later sources line is checked all the same
+              approve(chunk.citations);
+            } else if (chunk.type === 'error') {
+              throw new Error('Chatbot workflow error');
+            } else if (!chunk.type) {
+              // Workflow answered with a regular JSON body despite the content type
+              approve(extractRawCitations(chunk));
+              emit(extractOutput(chunk));
+            }
+          };
+
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += value;
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            lines.forEach(handleLine);
+          }
+          handleLine(buffer);
+          // No sources line and no text
+          if (!approved) approve([]);
+        }
+
+        const message = await onComplete(output, citations);
+        send({ type: 'done', output, citations, message });
+      } catch (error) {
+        console.error('Error while streaming chat response:', error);
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Stream interrupted' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
 
 serve(async (req) => {
   // Handle CORS preflight
@@ -45,7 +612,7 @@ serve(async (req) => {
 
     // Parse and validate request body
     const body = await req.json();
-    const { text, conversation_history } = body;
+    const { text, conversation_history, conversation_id, question_id, stream } = body;
 
     // Validate message length
     if (!text || typeof text !== 'string') {
@@ -79,9 +646,37 @@ serve(async (req) => {
         }));
     }
 
-    console.log(`Processing chat request for user ${user.id}, message length: ${text.length}`);
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const accessible = await getAccessibleDocuments(supabaseClient);
+    const { scope, versions, taggedDocumentIds } = await resolveScope(supabaseClient, conversation_id, accessible);
+    const allowedDocumentIds = getAllowedDocumentIds(accessible, scope, taggedDocumentIds);
+    const versionContext = await loadVersionContext(supabaseClient, adminClient, versions, accessible);
+    // Answers drawn from a version cite its document
+    const allowedIds = new Set([...allowedDocumentIds, ...versionContext.map(v => v.document_id)]);
+    const checkCitations = (raw: unknown[]) => resolveCitations(raw, accessible, allowedIds);
+    const documentMetadata = await getDocumentMetadata(supabaseClient, allowedIds);
 
-    // Forward to n8n with verified user_id
+    // Store the answer when it replies to a stored question. The first
+    // exchange of a conversation gives it its title.
+    const onComplete = async (output: string, citations: Citation[]): Promise<StoredMessage | null> => {
+      if (typeof conversation_id !== 'string') return null;
+      const message = typeof question_id === 'string'
+        ? await saveAnswer(supabaseClient, adminClient, conversation_id, user.id, question_id, output, citations)
+        : null;
+      if (validatedHistory.length === 0 && output) {
+        EdgeRuntime.waitUntil(generateTitle(supabaseClient, conversation_id, user.id, text, output));
+      }
+      return message;
+    };
+
+    console.log(`Processing chat request for user ${user.id}, message length: ${text.length}, stream: ${!!stream}, allowed documents: ${allowedDocumentIds.length}, versions: ${versionContext.length}`);
+
+    // Forward to n8n with verified user_id. The request signal aborts the
+    // upstream call when the client stops the generation.
     const response = await fetch(N8N_CHAT_WEBHOOK, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -89,7 +684,16 @@ serve(async (req) => {
         text,
         user_id: user.id, // Use authenticated user ID
         conversation_history: validatedHistory,
+        scope,
+        // Retrieval must be restricted to these documents
+        allowed_document_ids: allowedDocumentIds,
+        // Full text of earlier document versions selected as scope
+        version_context: versionContext,
+        // Description, tags, language and effective date, when set
+        document_metadata: documentMetadata,
+        stream: !!stream,
       }),
+      signal: req.signal,
     });
 
     if (!response.ok) {
@@ -97,14 +701,36 @@ serve(async (req) => {
       throw new Error('Failed to communicate with chatbot');
     }
 
+    if (stream) {
+      return streamResponse(response, checkCitations, onComplete);
+    }
+
     const data = await response.json();
-    console.log('Chat response received successfully');
+    const citations = checkCitations(extractRawCitations(data));
+    const output = extractOutput(data);
+    console.log(`Chat response received successfully with ${citations.length} citation(s)`);
+    const message = await onComplete(output, citations);
 
-    return new Response(JSON.stringify(data), {
+    return new Response(JSON.stringify({ output, citations, message }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error: any) {
+    if (error instanceof ScopeLimitError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (error instanceof CitationAccessError) {
+      console.error('Blocked chat response citing an inaccessible document');
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     console.error('Error in n8n-chat function:', error);
     return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
       status: 500,
@@ -1,13 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { N8N_DELETE_WEBHOOK } from '../_shared/n8n.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const N8N_DELETE_WEBHOOK = 'https://n8n.flowfyr.com/webhook/46936ab8-b9e3-4253-80c9-b003f7adcfc6';
-
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
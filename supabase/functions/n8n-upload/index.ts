@@ -1,12 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { N8N_UPLOAD_WEBHOOK, getIngestionCallbackUrl } from '../_shared/n8n.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const N8N_UPLOAD_WEBHOOK = 'https://n8n.flowfyr.com/webhook/ffbbfdb5-c92b-4ee1-8ada-6065344c4925';
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
 serve(async (req) => {
@@ -47,10 +47,11 @@ serve(async (req) => {
     const file = formData.get('data') as File | null;
     const filePath = formData.get('file_path') as string | null;
     const fileName = formData.get('file_name') as string | null;
+    const documentId = formData.get('document_id') as string | null;
 
     // Validate required fields
-    if (!file || !filePath || !fileName) {
-      return new Response(JSON.stringify({ error: 'Missing required fields: data, file_path, file_name' }), {
+    if (!file || !filePath || !fileName || !documentId) {
+      return new Response(JSON.stringify({ error: 'Missing required fields: data, file_path, file_name, document_id' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -73,6 +74,28 @@ serve(async (req) => {
       });
     }
 
+    // The workflow reports progress on this document through ingestion-callback
+    const { data: document } = await supabaseClient
+      .from('documents')
+      .select('id')
+      .eq('id', documentId)
+      .eq('file_path', filePath)
+      .maybeSingle();
+
+    if (!document) {
+      return new Response(JSON.stringify({ error: 'Document not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // First ingestion attempt, counted for the retry policy
+    const runId = crypto.randomUUID();
+    await supabaseClient
+      .from('documents')
+      .update({ ingestion_attempts: 1, ingestion_run_id: runId })
+      .eq('id', documentId);
+
     console.log(`Processing upload for user ${user.id}, file: ${fileName}, size: ${file.size}`);
 
     // Forward to n8n with verified user_id
@@ -81,6 +104,9 @@ serve(async (req) => {
     n8nFormData.append('user_id', user.id); // Use authenticated user ID
     n8nFormData.append('file_path', filePath);
     n8nFormData.append('file_name', fileName);
+    n8nFormData.append('document_id', documentId);
+    n8nFormData.append('run_id', runId);
+    n8nFormData.append('callback_url', getIngestionCallbackUrl());
 
     await fetch(N8N_UPLOAD_WEBHOOK, {
       method: 'POST',
@@ -0,0 +1,277 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deleteFromN8n } from '../_shared/n8n.ts';
+
+// Provided by the Supabase edge runtime to keep work alive after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Permanently deletes trashed documents and folders: vectors, stored files of
+// every version, then rows. Two callers:
+// - admins, to purge trash items right away ({ document_ids, folder_ids })
+// - the pg_cron job, with the service role key, to purge items trashed for
+//   longer than the retention period set in app_settings
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_SCHEDULED_BATCH = 100;
+
+const PURGED_DOCUMENT_COLUMNS = 'id, user_id, name, file_path, ingestion_backend';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface PurgedDocument {
+  id: string;
+  user_id: string;
+  name: string;
+  file_path: string;
+  ingestion_backend: string;
+}
+
+interface TrashedFolder {
+  id: string;
+  parent_id: string | null;
+}
+
+async function purgeDocument(admin: SupabaseClient, document: PurgedDocument): Promise<void> {
+  // Chunks of the in-repo pipeline are removed with the row
+  if (document.ingestion_backend !== 'local') {
+    await deleteFromN8n(document);
+  }
+
+  const { data: versions } = await admin
+    .from('document_versions')
+    .select('file_path')
+    .eq('document_id', document.id);
+  const filePaths = new Set([document.file_path, ...(versions ?? []).map((v: { file_path: string }) => v.file_path)]);
+  await admin.storage.from('documents').remove([...filePaths]);
+
+  const { error } = await admin.from('documents').delete().eq('id', document.id);
+  if (error) throw error;
+}
+
+// A folder can only be deleted once empty (see
+// prevent_non_empty_folder_delete), so sub-folders go first
+function deepestFirst(folders: TrashedFolder[]): TrashedFolder[] {
+  const byId = new Map(folders.map(f => [f.id, f]));
+  const depth = (folder: TrashedFolder) => {
+    let d = 0;
+    let parentId = folder.parent_id;
+    while (parentId && byId.has(parentId)) {
+      d += 1;
+      parentId = byId.get(parentId)!.parent_id;
+    }
+    return d;
+  };
+  return [...folders].sort((a, b) => depth(b) - depth(a));
+}
+
+// One item at a time; a failure is logged and the item stays in the trash
+async function purgeAll(admin: SupabaseClient, documents: PurgedDocument[], folders: TrashedFolder[]): Promise<void> {
+  for (const document of documents) {
+    try {
+      await purgeDocument(admin, document);
+    } catch (error) {
+      console.error(`Failed to purge document ${document.id}:`, (error as Error).message);
+    }
+  }
+
+  for (const folder of deepestFirst(folders)) {
+    const { error } = await admin.from('folders').delete().eq('id', folder.id);
+    if (error) console.error(`Failed to purge folder ${folder.id}:`, error.message);
+  }
+}
+
+// A trashed folder with everything inside, including sub-folders and documents
+// trashed on their own before it
+async function loadTrashedTree(
+  admin: SupabaseClient,
+  folderId: string,
+): Promise<{ folders: TrashedFolder[]; documents: PurgedDocument[] }> {
+  const { data: root, error } = await admin
+    .from('folders')
+    .select('id, parent_id')
+    .eq('id', folderId)
+    .single();
+  if (error) throw error;
+
+  const folders: TrashedFolder[] = [root];
+  let frontier = [root.id];
+  while (frontier.length > 0) {
+    const { data: children, error: childrenError } = await admin
+      .from('folders')
+      .select('id, parent_id')
+      .in('parent_id', frontier)
+      .not('deleted_at', 'is', null);
+    if (childrenError) throw childrenError;
+    folders.push(...children);
+    frontier = children.map((c: TrashedFolder) => c.id);
+  }
+
+  const { data: documents, error: documentsError } = await admin
+    .from('documents')
+    .select(PURGED_DOCUMENT_COLUMNS)
+    .in('folder_id', folders.map(f => f.id))
+    .not('deleted_at', 'is', null);
+  if (documentsError) throw documentsError;
+
+  return { folders, documents };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      console.error('Missing authorization header');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const adminClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // Scheduled purge of expired trash
+    if (serviceRoleKey && authHeader === `Bearer ${serviceRoleKey}`) {
+      const { data: settings, error: settingsError } = await adminClient
+        .from('app_settings')
+        .select('trash_retention_days')
+        .single();
+      if (settingsError) throw settingsError;
+
+      const cutoff = new Date(Date.now() - settings.trash_retention_days * 24 * 60 * 60 * 1000).toISOString();
+
+      const { data: documents, error } = await adminClient
+        .from('documents')
+        .select(PURGED_DOCUMENT_COLUMNS)
+        .lte('deleted_at', cutoff)
+        .order('deleted_at', { ascending: true })
+        .limit(MAX_SCHEDULED_BATCH);
+      if (error) throw error;
+
+      // Folders wait for the next run while their documents are not all purged
+      let folders: TrashedFolder[] = [];
+      if (documents.length < MAX_SCHEDULED_BATCH) {
+        const { data, error: foldersError } = await adminClient
+          .from('folders')
+          .select('id, parent_id')
+          .lte('deleted_at', cutoff);
+        if (foldersError) throw foldersError;
+        folders = data;
+      }
+
+      console.log(`Purging ${documents.length} document(s) and ${folders.length} folder(s) trashed before ${cutoff}`);
+      EdgeRuntime.waitUntil(purgeAll(adminClient, documents, folders));
+
+      return new Response(JSON.stringify({ success: true, documents: documents.length, folders: folders.length }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      console.error('Authentication failed:', authError?.message);
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: isAdmin } = await supabaseClient.rpc('has_role_or_higher', {
+      _user_id: user.id,
+      _min_role: 'admin',
+    });
+
+    if (!isAdmin) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse request body
+    const body = await req.json();
+    const isIdList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every((id: unknown) => typeof id === 'string');
+    const documentIds = isIdList(body.document_ids) ? body.document_ids : [];
+    const folderIds = isIdList(body.folder_ids) ? body.folder_ids : [];
+
+    if (documentIds.length === 0 && folderIds.length === 0) {
+      return new Response(JSON.stringify({ error: 'Missing required field: document_ids or folder_ids' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Only items the caller sees in the trash, with folder access rules applied
+    const { data: trash, error: trashError } = await supabaseClient.rpc('get_trash');
+    if (trashError) throw trashError;
+
+    const visible = new Set((trash ?? []).map((item: { item_type: string; id: string }) => `${item.item_type}:${item.id}`));
+    const missing = [
+      ...documentIds.filter(id => !visible.has(`document:${id}`)),
+      ...folderIds.filter(id => !visible.has(`folder:${id}`)),
+    ];
+
+    if (missing.length > 0) {
+      return new Response(JSON.stringify({ error: 'Trash item not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Trashed rows are hidden by RLS, so they are loaded with the admin client.
+    // Keyed by id: a selected item can also be inside a selected folder.
+    const documentsById = new Map<string, PurgedDocument>();
+    const foldersById = new Map<string, TrashedFolder>();
+
+    if (documentIds.length > 0) {
+      const { data, error } = await adminClient
+        .from('documents')
+        .select(PURGED_DOCUMENT_COLUMNS)
+        .in('id', documentIds);
+      if (error) throw error;
+      data.forEach((d: PurgedDocument) => documentsById.set(d.id, d));
+    }
+
+    for (const folderId of folderIds) {
+      const tree = await loadTrashedTree(adminClient, folderId);
+      tree.documents.forEach(d => documentsById.set(d.id, d));
+      tree.folders.forEach(f => foldersById.set(f.id, f));
+    }
+
+    const documents = [...documentsById.values()];
+    const folders = [...foldersById.values()];
+
+    console.log(`Purge of ${documents.length} document(s) and ${folders.length} folder(s) requested by user ${user.id}`);
+    EdgeRuntime.waitUntil(purgeAll(adminClient, documents, folders));
+
+    return new Response(JSON.stringify({ success: true, documents: documents.length, folders: folders.length }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in purge-trash function:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,179 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { INGESTABLE_DOCUMENT_COLUMNS, IngestableDocument, dispatchIngestion } from '../_shared/ingestion.ts';
+import { fetchAllRows } from '../_shared/pagination.ts';
+import { MAX_INGESTION_ATTEMPTS } from '../_shared/retry.ts';
+
+// Provided by the Supabase edge runtime to keep work alive after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Two callers:
+// - editors, to re-ingest documents ({ document_ids }) or a whole folder ({ folder_id })
+// - the pg_cron job, with the service role key, to retry failed ingestions that are due
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_SCHEDULED_BATCH = 50;
+// Ids per request when loading the documents of a whole folder
+const ID_BATCH_SIZE = 200;
+
+// Runs one document at a time to keep the load on the ingestion backends low
+async function dispatchAll(
+  admin: ReturnType<typeof createClient>,
+  documents: IngestableDocument[],
+  resetAttempts: boolean,
+): Promise<void> {
+  for (const document of documents) {
+    await dispatchIngestion(admin, document, { resetAttempts });
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      console.error('Missing authorization header');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const adminClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // Scheduled retries of failed ingestions
+    if (serviceRoleKey && authHeader === `Bearer ${serviceRoleKey}`) {
+      const { data: due, error } = await adminClient
+        .from('documents')
+        .select(INGESTABLE_DOCUMENT_COLUMNS)
+        .eq('status', 'error')
+        .is('deleted_at', null)
+        .lte('next_retry_at', new Date().toISOString())
+        .lt('ingestion_attempts', MAX_INGESTION_ATTEMPTS)
+        .order('next_retry_at', { ascending: true })
+        .limit(MAX_SCHEDULED_BATCH);
+
+      if (error) throw error;
+
+      console.log(`Retrying ingestion of ${due.length} document(s)`);
+      EdgeRuntime.waitUntil(dispatchAll(adminClient, due, false));
+
+      return new Response(JSON.stringify({ success: true, count: due.length }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      console.error('Authentication failed:', authError?.message);
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: isEditor } = await supabaseClient.rpc('has_role_or_higher', {
+      _user_id: user.id,
+      _min_role: 'editor',
+    });
+
+    if (!isEditor) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse request body
+    const body = await req.json();
+    const { document_ids, folder_id } = body;
+
+    const hasDocumentIds = Array.isArray(document_ids) && document_ids.length > 0
+      && document_ids.every((id: unknown) => typeof id === 'string');
+
+    if (!hasDocumentIds && (!folder_id || typeof folder_id !== 'string')) {
+      return new Response(JSON.stringify({ error: 'Missing required field: document_ids or folder_id' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Only documents the caller can see, with folder access rules applied. A
+    // folder includes its sub-folders.
+    let ids: string[];
+    if (hasDocumentIds) {
+      const { data: accessible, error: accessError } = await supabaseClient
+        .rpc('get_accessible_documents')
+        .select('id')
+        .in('id', document_ids);
+      if (accessError) throw accessError;
+      ids = (accessible ?? []).map((doc: { id: string }) => doc.id);
+    } else {
+      const accessible = await fetchAllRows<{ id: string }>((from, to) => supabaseClient
+        .rpc('get_folder_tree_document_ids', { _folder_id: folder_id })
+        .order('id')
+        .range(from, to));
+      ids = accessible.map(doc => doc.id);
+    }
+
+    if (hasDocumentIds && ids.length !== document_ids.length) {
+      return new Response(JSON.stringify({ error: 'Document not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (ids.length === 0) {
+      return new Response(JSON.stringify({ success: true, count: 0 }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Documents are owned by their uploader, so the full rows go through the admin client
+    const documents: IngestableDocument[] = [];
+    for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+      const { data, error } = await adminClient
+        .from('documents')
+        .select(INGESTABLE_DOCUMENT_COLUMNS)
+        .in('id', ids.slice(i, i + ID_BATCH_SIZE));
+
+      if (error) throw error;
+      documents.push(...(data as IngestableDocument[]));
+    }
+
+    console.log(`Re-ingestion of ${documents.length} document(s) requested by user ${user.id}`);
+
+    // A manual retry starts a fresh backoff cycle
+    EdgeRuntime.waitUntil(dispatchAll(adminClient, documents, true));
+
+    return new Response(JSON.stringify({ success: true, count: documents.length }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in retry-ingestion function:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
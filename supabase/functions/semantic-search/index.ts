@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getEmbeddingProvider } from '../_shared/embeddings.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_QUERY_LENGTH = 4000;
+const DEFAULT_MATCH_COUNT = 8;
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      console.error('Missing authorization header');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    
+    if (authError || !user) {
+      console.error('Authentication failed:', authError?.message);
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse and validate request body
+    const body = await req.json();
+    const { query, match_count, document_ids, tags, language, effective_after, effective_before } = body;
+
+    if (!query || typeof query !== 'string' || query.length > MAX_QUERY_LENGTH) {
+      return new Response(JSON.stringify({ error: `Query is required (maximum ${MAX_QUERY_LENGTH} characters)` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [queryEmbedding] = await getEmbeddingProvider().embed([query]);
+
+    // The RPC runs with the caller's JWT so folder access rules apply
+    const { data, error } = await supabaseClient.rpc('match_document_chunks', {
+      query_embedding: JSON.stringify(queryEmbedding),
+      match_count: typeof match_count === 'number' ? match_count : DEFAULT_MATCH_COUNT,
+      filter_document_ids: Array.isArray(document_ids) ? document_ids : null,
+      // Optional metadata filters
+      filter_tags: Array.isArray(tags) && tags.length > 0 ? tags : null,
+      filter_language: typeof language === 'string' ? language : null,
+      effective_after: typeof effective_after === 'string' ? effective_after : null,
+      effective_before: typeof effective_before === 'string' ? effective_before : null,
+    });
+
+    if (error) throw error;
+
+    console.log(`Semantic search for user ${user.id} returned ${data.length} chunk(s)`);
+
+    return new Response(JSON.stringify({ matches: data }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in semantic-search function:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
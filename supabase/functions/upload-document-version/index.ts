@@ -0,0 +1,173 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { INGESTABLE_DOCUMENT_COLUMNS, dispatchIngestion } from '../_shared/ingestion.ts';
+
+// Provided by the Supabase edge runtime to keep work alive after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Makes a file already uploaded to storage the new current version of a
+// document, keeping its id, folder and citations, and re-ingests it. The
+// previous version's vectors are dropped so only the latest is retrieved.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ACCEPTED_FILE_TYPES = ['pdf', 'docx', 'txt', 'csv', 'json', 'md'];
+
+// The client uploads the file before calling this function
+async function fileExists(admin: ReturnType<typeof createClient>, filePath: string): Promise<boolean> {
+  const slash = filePath.lastIndexOf('/');
+  const fileName = filePath.slice(slash + 1);
+  const { data, error } = await admin.storage
+    .from('documents')
+    .list(filePath.slice(0, slash), { search: fileName });
+  if (error) throw error;
+  return (data ?? []).some(file => file.name === fileName);
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      console.error('Missing authorization header');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      console.error('Authentication failed:', authError?.message);
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: isEditor } = await supabaseClient.rpc('has_role_or_higher', {
+      _user_id: user.id,
+      _min_role: 'editor',
+    });
+
+    if (!isEditor) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse request body
+    const body = await req.json();
+    const { document_id, file_path, file_name, file_size, content_hash } = body;
+
+    if (
+      !document_id || typeof document_id !== 'string' ||
+      !file_path || typeof file_path !== 'string' ||
+      !file_name || typeof file_name !== 'string' ||
+      !Number.isInteger(file_size)
+    ) {
+      return new Response(JSON.stringify({ error: 'Missing required fields: document_id, file_path, file_name, file_size' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const fileType = file_name.split('.').pop()?.toLowerCase() ?? '';
+    if (!ACCEPTED_FILE_TYPES.includes(fileType)) {
+      return new Response(JSON.stringify({ error: 'Unsupported file type' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate file path starts with user's ID (security check)
+    if (!file_path.startsWith(`${user.id}/`)) {
+      console.error(`File path mismatch: expected ${user.id}, got ${file_path}`);
+      return new Response(JSON.stringify({ error: 'Invalid file path' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Load the document through the caller's client so RLS checks access
+    const { data: document } = await supabaseClient
+      .from('documents')
+      .select(INGESTABLE_DOCUMENT_COLUMNS)
+      .eq('id', document_id)
+      .maybeSingle();
+
+    if (!document) {
+      return new Response(JSON.stringify({ error: 'Document not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if (!await fileExists(adminClient, file_path)) {
+      return new Response(JSON.stringify({ error: 'File not found' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: version, error: versionError } = await adminClient.rpc('add_document_version', {
+      _document_id: document.id,
+      _file_name: file_name,
+      _file_path: file_path,
+      _file_type: fileType,
+      _file_size: file_size,
+      _content_hash: typeof content_hash === 'string' ? content_hash : null,
+      _uploaded_by: user.id,
+    });
+
+    if (versionError) {
+      // Unique violation on content_hash
+      if (versionError.code === '23505') {
+        return new Response(JSON.stringify({ error: 'An identical document already exists' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      throw versionError;
+    }
+
+    console.log(`Document ${document.id} updated to version ${version} by user ${user.id}`);
+
+    // The vectors of the previous version are dropped before the new one is sent
+    const current = { ...document, file_path, file_type: fileType };
+    EdgeRuntime.waitUntil(dispatchIngestion(adminClient, current, { resetAttempts: true, previous: document }));
+
+    return new Response(JSON.stringify({ success: true, version }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in upload-document-version function:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,36 @@
+-- Create message_citations table (sources retrieved for an assistant message)
+CREATE TABLE public.message_citations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  -- Kept when the document is deleted so the answer still shows what it relied on
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  document_name TEXT,
+  position INTEGER NOT NULL,
+  chunk_index INTEGER,
+  page INTEGER,
+  snippet TEXT,
+  score DOUBLE PRECISION,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, position)
+);
+
+CREATE INDEX idx_message_citations_message_id ON public.message_citations(message_id);
+CREATE INDEX idx_message_citations_document_id ON public.message_citations(document_id);
+
+-- Enable RLS
+ALTER TABLE public.message_citations ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies: citations follow the ownership of their message
+CREATE POLICY "Users can view citations of their own messages"
+ON public.message_citations FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.chat_messages m
+  WHERE m.id = message_citations.message_id AND m.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can create citations on their own messages"
+ON public.message_citations FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.chat_messages m
+  WHERE m.id = message_citations.message_id AND m.user_id = auth.uid()
+));
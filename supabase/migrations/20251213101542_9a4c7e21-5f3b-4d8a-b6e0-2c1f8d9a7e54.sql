@@ -0,0 +1,5 @@
+-- Restrict a conversation to a subset of folders and/or documents.
+-- Empty arrays mean the whole corpus the user can access.
+ALTER TABLE public.conversations
+ADD COLUMN scope_folder_ids UUID[] NOT NULL DEFAULT '{}',
+ADD COLUMN scope_document_ids UUID[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,22 @@
+-- Documents the current user may retrieve through the chatbot.
+-- Root documents belong to their uploader; documents filed in a folder follow
+-- the folder access rules (can_view_folder). Uses auth.uid() rather than a
+-- user id argument so a caller cannot list another user's documents.
+CREATE OR REPLACE FUNCTION public.get_accessible_documents()
+RETURNS TABLE (id uuid, name text, folder_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.id, d.name, d.folder_id
+  FROM public.documents d
+  LEFT JOIN public.folders f ON f.id = d.folder_id
+  WHERE auth.uid() IS NOT NULL
+  AND (
+    (d.folder_id IS NULL AND (d.user_id = auth.uid() OR has_role(auth.uid(), 'super_admin')))
+    OR (f.id IS NOT NULL AND can_view_folder(auth.uid(), f.id, f.user_id, f.access_level, f.created_by))
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_accessible_documents() FROM anon;
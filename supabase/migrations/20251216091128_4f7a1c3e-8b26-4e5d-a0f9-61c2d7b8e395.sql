@@ -0,0 +1,28 @@
+-- Track which pipeline ingests each document: the external n8n workflow or
+-- the in-repo ingest-document edge function
+ALTER TABLE public.documents
+ADD COLUMN ingestion_backend TEXT NOT NULL DEFAULT 'n8n' CHECK (ingestion_backend IN ('n8n', 'local'));
+
+-- Create document_chunks table (text extracted by the local pipeline)
+CREATE TABLE public.document_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  page INTEGER,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, chunk_index)
+);
+
+CREATE INDEX idx_document_chunks_document_id ON public.document_chunks(document_id);
+
+-- Enable RLS
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Chunks are readable by anyone who can access their document.
+-- They are only written by the ingestion function with the service role.
+CREATE POLICY "Users can view chunks of accessible documents"
+ON public.document_chunks FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.get_accessible_documents() a WHERE a.id = document_chunks.document_id
+));
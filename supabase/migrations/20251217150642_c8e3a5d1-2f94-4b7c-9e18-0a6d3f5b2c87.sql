@@ -0,0 +1,52 @@
+-- Enable pgvector for semantic search over document chunks
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- 384 dimensions: matches the local development embedder and
+-- text-embedding-3-small called with dimensions = 384
+ALTER TABLE public.document_chunks
+ADD COLUMN embedding extensions.vector(384);
+
+CREATE INDEX idx_document_chunks_embedding
+ON public.document_chunks
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Semantic search restricted to the documents the caller can access
+-- (get_accessible_documents applies the folder access rules)
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(384),
+  match_count INTEGER DEFAULT 8,
+  filter_document_ids UUID[] DEFAULT NULL,
+  min_similarity DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    a.name AS document_name,
+    c.chunk_index,
+    c.page,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  JOIN public.get_accessible_documents() a ON a.id = c.document_id
+  WHERE c.embedding IS NOT NULL
+  AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+  AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT LEAST(GREATEST(match_count, 1), 50)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_document_chunks(extensions.vector, INTEGER, UUID[], DOUBLE PRECISION) FROM anon;
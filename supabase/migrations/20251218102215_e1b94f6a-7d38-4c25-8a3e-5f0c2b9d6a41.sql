@@ -0,0 +1,6 @@
+-- Ingestion progress reported by the ingestion worker (n8n callback or local pipeline)
+ALTER TABLE public.documents
+ADD COLUMN ingestion_progress SMALLINT CHECK (ingestion_progress BETWEEN 0 AND 100),
+ADD COLUMN page_count INTEGER,
+ADD COLUMN chunk_count INTEGER,
+ADD COLUMN error_message TEXT;
@@ -0,0 +1,6 @@
+-- Broadcast document and folder changes so open pages update live
+ALTER TABLE public.documents REPLICA IDENTITY FULL;
+ALTER TABLE public.folders REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.documents;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.folders;
@@ -0,0 +1,29 @@
+-- Retry policy for failed ingestions: attempts counter and next scheduled retry
+ALTER TABLE public.documents
+ADD COLUMN ingestion_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN next_retry_at TIMESTAMPTZ;
+
+CREATE INDEX idx_documents_next_retry_at
+ON public.documents (next_retry_at)
+WHERE status = 'error' AND next_retry_at IS NOT NULL;
+
+-- Call the retry-ingestion function every five minutes. The project URL and
+-- service role key are read from Vault (secrets 'project_url' and
+-- 'service_role_key') so they never live in the migration.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'retry-failed-ingestions',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/retry-ingestion',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"scheduled": true}'::jsonb
+  );
+  $$
+);
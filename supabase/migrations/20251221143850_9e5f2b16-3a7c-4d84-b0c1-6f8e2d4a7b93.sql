@@ -0,0 +1,45 @@
+-- Document detail page: documents shared through a folder become readable by
+-- everyone who can view that folder, not only by their uploader.
+CREATE POLICY "Users can view accessible documents"
+ON public.documents FOR SELECT
+USING (id IN (SELECT id FROM public.get_accessible_documents()));
+
+-- Storage objects follow the same rule so shared files can be previewed
+CREATE OR REPLACE FUNCTION public.can_view_document_file(_file_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.documents d
+    JOIN public.get_accessible_documents() a ON a.id = d.id
+    WHERE d.file_path = _file_path
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_document_file(TEXT) FROM anon;
+
+CREATE POLICY "Users can view accessible document files"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'documents' AND public.can_view_document_file(name));
+
+-- Profiles are only readable by admins, so the uploader of a shared document
+-- is exposed through this function, for accessible documents only.
+CREATE OR REPLACE FUNCTION public.get_document_uploader(_document_id UUID)
+RETURNS TABLE (id UUID, full_name TEXT, email TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.full_name, p.email
+  FROM public.documents d
+  JOIN public.get_accessible_documents() a ON a.id = d.id
+  JOIN public.profiles p ON p.id = d.user_id
+  WHERE d.id = _document_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_document_uploader(UUID) FROM anon;
@@ -0,0 +1,98 @@
+-- Nested folders
+ALTER TABLE public.folders
+ADD COLUMN parent_id UUID REFERENCES public.folders(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_folders_parent_id ON public.folders (parent_id);
+
+-- A folder cannot be moved under itself or one of its descendants
+CREATE OR REPLACE FUNCTION public.prevent_folder_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.folders WHERE id = NEW.parent_id
+      UNION
+      SELECT f.id, f.parent_id FROM public.folders f JOIN ancestors a ON f.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A folder cannot be moved into one of its own sub-folders';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_folder_cycle
+BEFORE INSERT OR UPDATE OF parent_id ON public.folders
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_folder_cycle();
+
+-- Deleting a folder keeps its content in place: sub-folders and documents move
+-- up to the parent folder (or to the root)
+CREATE OR REPLACE FUNCTION public.reparent_folder_content()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.folders SET parent_id = OLD.parent_id WHERE parent_id = OLD.id;
+  UPDATE public.documents SET folder_id = OLD.parent_id WHERE folder_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER reparent_folder_content
+BEFORE DELETE ON public.folders
+FOR EACH ROW
+EXECUTE FUNCTION public.reparent_folder_content();
+
+-- Access inheritance: a folder is visible only if it passes its own
+-- access_level rule and so does every ancestor. Sub-folders can narrow the
+-- audience of their parent but never widen it.
+CREATE OR REPLACE FUNCTION public.can_view_folder_tree(_user_id UUID, _folder_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT * FROM public.folders WHERE id = _folder_id
+    UNION
+    SELECT f.* FROM public.folders f JOIN ancestors a ON f.id = a.parent_id
+  )
+  SELECT EXISTS (SELECT 1 FROM ancestors)
+    AND NOT EXISTS (
+      SELECT 1 FROM ancestors a
+      WHERE NOT can_view_folder(_user_id, a.id, a.user_id, a.access_level, a.created_by)
+    )
+$$;
+
+DROP POLICY IF EXISTS "Users can view accessible folders" ON public.folders;
+
+CREATE POLICY "Users can view accessible folders"
+ON public.folders
+FOR SELECT
+USING (public.can_view_folder_tree(auth.uid(), id));
+
+-- Retrieval follows the same inheritance rule
+CREATE OR REPLACE FUNCTION public.get_accessible_documents()
+RETURNS TABLE (id uuid, name text, folder_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.id, d.name, d.folder_id
+  FROM public.documents d
+  WHERE auth.uid() IS NOT NULL
+  AND (
+    (d.folder_id IS NULL AND (d.user_id = auth.uid() OR has_role(auth.uid(), 'super_admin')))
+    OR (d.folder_id IS NOT NULL AND can_view_folder_tree(auth.uid(), d.folder_id))
+  )
+$$;
@@ -0,0 +1,34 @@
+-- Number of accessible documents under each visible folder, sub-folders
+-- included, so the documents page does not need to load every row to show
+-- folder counts.
+CREATE OR REPLACE FUNCTION public.get_folder_document_counts()
+RETURNS TABLE (folder_id UUID, document_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE visible AS (
+    SELECT f.id, f.parent_id
+    FROM public.folders f
+    WHERE can_view_folder_tree(auth.uid(), f.id)
+  ),
+  subtree AS (
+    SELECT v.id AS root_id, v.id
+    FROM visible v
+    UNION ALL
+    SELECT s.root_id, v.id
+    FROM visible v
+    JOIN subtree s ON v.parent_id = s.id
+  )
+  SELECT s.root_id, count(a.id)
+  FROM subtree s
+  JOIN public.get_accessible_documents() a ON a.folder_id = s.id
+  GROUP BY s.root_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_folder_document_counts() FROM anon;
+
+-- Folder listings are paginated by creation date
+CREATE INDEX IF NOT EXISTS idx_documents_folder_created_at
+ON public.documents (folder_id, created_at DESC);
@@ -0,0 +1,9 @@
+-- Uploads now target the current folder: a document can only be created in
+-- a folder its uploader can see.
+DROP POLICY IF EXISTS "Users can insert their own documents" ON public.documents;
+CREATE POLICY "Users can insert their own documents"
+ON public.documents FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (folder_id IS NULL OR public.can_view_folder_tree(auth.uid(), folder_id))
+);
@@ -0,0 +1,33 @@
+-- SHA-256 of the uploaded file, computed by the browser before uploading.
+-- Identical content is only stored once across the workspace, unless the
+-- uploader explicitly keeps both copies, in which case the copy is stored
+-- without a hash. Documents uploaded before this column stay NULL.
+ALTER TABLE public.documents
+ADD COLUMN content_hash TEXT;
+
+CREATE UNIQUE INDEX idx_documents_content_hash
+ON public.documents (content_hash)
+WHERE content_hash IS NOT NULL;
+
+-- Existing documents matching the given hashes. Documents the caller cannot
+-- access are reported without their id and name, so uploads can still be
+-- flagged as duplicates without revealing them.
+CREATE OR REPLACE FUNCTION public.find_documents_by_hash(hashes TEXT[])
+RETURNS TABLE (content_hash TEXT, id UUID, name TEXT, folder_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.content_hash,
+    CASE WHEN a.id IS NOT NULL THEN d.id END,
+    CASE WHEN a.id IS NOT NULL THEN d.name END,
+    CASE WHEN a.id IS NOT NULL THEN d.folder_id END
+  FROM public.documents d
+  LEFT JOIN public.get_accessible_documents() a ON a.id = d.id
+  WHERE auth.uid() IS NOT NULL
+    AND d.content_hash = ANY(hashes)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_documents_by_hash(TEXT[]) FROM anon;
@@ -0,0 +1,116 @@
+-- Versions of a document. The documents row always describes the latest
+-- version, which is the only one ingested; earlier files stay in storage.
+CREATE TABLE public.document_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_size BIGINT NOT NULL,
+  content_hash TEXT,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, version_number)
+);
+
+ALTER TABLE public.documents
+ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1;
+
+INSERT INTO public.document_versions
+  (document_id, version_number, file_name, file_path, file_type, file_size, content_hash, uploaded_by, created_at)
+SELECT id, 1, name, file_path, file_type, file_size, content_hash, user_id, created_at
+FROM public.documents;
+
+-- Every new document starts with its first version
+CREATE OR REPLACE FUNCTION public.record_initial_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.document_versions
+    (document_id, version_number, file_name, file_path, file_type, file_size, content_hash, uploaded_by)
+  VALUES
+    (NEW.id, NEW.current_version, NEW.name, NEW.file_path, NEW.file_type, NEW.file_size, NEW.content_hash, NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_initial_document_version
+AFTER INSERT ON public.documents
+FOR EACH ROW EXECUTE FUNCTION public.record_initial_document_version();
+
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written by the upload-document-version function only
+CREATE POLICY "Users can view versions of accessible documents"
+ON public.document_versions FOR SELECT
+USING (document_id IN (SELECT id FROM public.get_accessible_documents()));
+
+-- Make the new version current, in one transaction. The document returns to
+-- pending so that only this version gets ingested.
+CREATE OR REPLACE FUNCTION public.add_document_version(
+  _document_id UUID,
+  _file_name TEXT,
+  _file_path TEXT,
+  _file_type TEXT,
+  _file_size BIGINT,
+  _content_hash TEXT,
+  _uploaded_by UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version INTEGER;
+BEGIN
+  UPDATE public.documents
+  SET current_version = current_version + 1,
+      file_path = _file_path,
+      file_type = _file_type,
+      file_size = _file_size,
+      content_hash = _content_hash,
+      status = 'pending',
+      page_count = NULL,
+      chunk_count = NULL
+  WHERE id = _document_id
+  RETURNING current_version INTO _version;
+
+  IF _version IS NULL THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  INSERT INTO public.document_versions
+    (document_id, version_number, file_name, file_path, file_type, file_size, content_hash, uploaded_by)
+  VALUES
+    (_document_id, _version, _file_name, _file_path, _file_type, _file_size, _content_hash, _uploaded_by);
+
+  RETURN _version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_document_version(UUID, TEXT, TEXT, TEXT, BIGINT, TEXT, UUID) FROM anon, authenticated;
+
+-- Files of earlier versions stay readable for those who can see the document
+CREATE OR REPLACE FUNCTION public.can_view_document_file(_file_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.document_versions v
+    JOIN public.get_accessible_documents() a ON a.id = v.document_id
+    WHERE v.file_path = _file_path
+  )
+$$;
+
+-- Conversations can be asked about a specific earlier version
+ALTER TABLE public.conversations
+ADD COLUMN scope_version_ids UUID[] NOT NULL DEFAULT '{}';
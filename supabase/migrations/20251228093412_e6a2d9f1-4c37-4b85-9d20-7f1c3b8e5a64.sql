@@ -0,0 +1,366 @@
+-- Trash bin: deleting a document or a folder only stamps deleted_at. Trashed
+-- items disappear from listings, search and retrieval; the purge-trash
+-- function removes them for good once the retention period is over, and only
+-- then deletes their vectors, files and rows.
+ALTER TABLE public.documents
+ADD COLUMN deleted_at TIMESTAMPTZ,
+ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.folders
+ADD COLUMN deleted_at TIMESTAMPTZ,
+ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_documents_deleted_at ON public.documents (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_folders_deleted_at ON public.folders (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Workspace-wide settings, a single row that admins can edit
+CREATE TABLE public.app_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  trash_retention_days INTEGER NOT NULL DEFAULT 30 CHECK (trash_retention_days BETWEEN 1 AND 365),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.app_settings DEFAULT VALUES;
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view settings"
+ON public.app_settings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update settings"
+ON public.app_settings FOR UPDATE
+USING (public.has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Folder access rules for a document, whether or not it is in the trash
+CREATE OR REPLACE FUNCTION public.can_view_document(_user_id UUID, _owner_id UUID, _folder_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _user_id IS NOT NULL AND (
+    (_folder_id IS NULL AND (_owner_id = _user_id OR has_role(_user_id, 'super_admin')))
+    OR (_folder_id IS NOT NULL AND can_view_folder_tree(_user_id, _folder_id))
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_document(UUID, UUID, UUID) FROM anon;
+
+-- Trashing a folder stamps its whole sub-tree, so checking the folder itself
+-- is enough
+CREATE OR REPLACE FUNCTION public.is_trashed_folder(_folder_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.folders WHERE id = _folder_id AND deleted_at IS NOT NULL)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_trashed_folder(UUID) FROM anon;
+
+-- Retrieval, search, counts and file access all go through this function
+CREATE OR REPLACE FUNCTION public.get_accessible_documents()
+RETURNS TABLE (id uuid, name text, folder_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.id, d.name, d.folder_id
+  FROM public.documents d
+  WHERE d.deleted_at IS NULL
+  AND can_view_document(auth.uid(), d.user_id, d.folder_id)
+$$;
+
+DROP POLICY IF EXISTS "Users can view their own documents" ON public.documents;
+CREATE POLICY "Users can view their own documents"
+ON public.documents FOR SELECT
+USING (auth.uid() = user_id AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Users can view accessible folders" ON public.folders;
+CREATE POLICY "Users can view accessible folders"
+ON public.folders FOR SELECT
+USING (deleted_at IS NULL AND public.can_view_folder_tree(auth.uid(), id));
+
+DROP POLICY IF EXISTS "Users can insert their own documents" ON public.documents;
+CREATE POLICY "Users can insert their own documents"
+ON public.documents FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND deleted_at IS NULL
+  AND (
+    folder_id IS NULL
+    OR (public.can_view_folder_tree(auth.uid(), folder_id) AND NOT public.is_trashed_folder(folder_id))
+  )
+);
+
+-- A trashed copy no longer blocks uploading the same content again
+DROP INDEX IF EXISTS public.idx_documents_content_hash;
+CREATE UNIQUE INDEX idx_documents_content_hash
+ON public.documents (content_hash)
+WHERE content_hash IS NOT NULL AND deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.find_documents_by_hash(hashes TEXT[])
+RETURNS TABLE (content_hash TEXT, id UUID, name TEXT, folder_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.content_hash,
+    CASE WHEN a.id IS NOT NULL THEN d.id END,
+    CASE WHEN a.id IS NOT NULL THEN d.name END,
+    CASE WHEN a.id IS NOT NULL THEN d.folder_id END
+  FROM public.documents d
+  LEFT JOIN public.get_accessible_documents() a ON a.id = d.id
+  WHERE auth.uid() IS NOT NULL
+    AND d.deleted_at IS NULL
+    AND d.content_hash = ANY(hashes)
+$$;
+
+-- Move a document to the trash (admins). Returns its name.
+CREATE OR REPLACE FUNCTION public.trash_document(_document_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _name TEXT;
+BEGIN
+  IF NOT has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  UPDATE public.documents d
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE d.id = _document_id
+    AND d.deleted_at IS NULL
+    AND can_view_document(auth.uid(), d.user_id, d.folder_id)
+  RETURNING d.name INTO _name;
+
+  IF _name IS NULL THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  RETURN _name;
+END;
+$$;
+
+-- Move a folder, its sub-folders and their documents to the trash (admins).
+-- Everything gets the same deleted_at so it can be restored together.
+CREATE OR REPLACE FUNCTION public.trash_folder(_folder_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ids UUID[];
+BEGIN
+  IF NOT has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  WITH RECURSIVE subtree AS (
+    SELECT f.id FROM public.folders f
+    WHERE f.id = _folder_id AND f.deleted_at IS NULL AND can_view_folder_tree(auth.uid(), f.id)
+    UNION
+    SELECT f.id FROM public.folders f JOIN subtree s ON f.parent_id = s.id
+    WHERE f.deleted_at IS NULL
+  )
+  SELECT array_agg(id) INTO _ids FROM subtree;
+
+  IF _ids IS NULL THEN
+    RAISE EXCEPTION 'Folder not found';
+  END IF;
+
+  UPDATE public.folders SET deleted_at = now(), deleted_by = auth.uid() WHERE id = ANY(_ids);
+  UPDATE public.documents SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE folder_id = ANY(_ids) AND deleted_at IS NULL;
+END;
+$$;
+
+-- Restore a document (admins). It goes back to the root when its folder is
+-- still in the trash, and drops its hash when the same content was uploaded
+-- again in the meantime.
+CREATE OR REPLACE FUNCTION public.restore_document(_document_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  UPDATE public.documents d
+  SET deleted_at = NULL,
+      deleted_by = NULL,
+      folder_id = CASE WHEN is_trashed_folder(d.folder_id) THEN NULL ELSE d.folder_id END,
+      content_hash = CASE WHEN EXISTS (
+        SELECT 1 FROM public.documents o
+        WHERE o.content_hash = d.content_hash AND o.deleted_at IS NULL
+      ) THEN NULL ELSE d.content_hash END
+  WHERE d.id = _document_id
+    AND d.deleted_at IS NOT NULL
+    AND can_view_document(auth.uid(), d.user_id, d.folder_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+END;
+$$;
+
+-- Restore a folder with everything that was trashed along with it (admins)
+CREATE OR REPLACE FUNCTION public.restore_folder(_folder_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted_at TIMESTAMPTZ;
+  _ids UUID[];
+BEGIN
+  IF NOT has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  SELECT f.deleted_at INTO _deleted_at
+  FROM public.folders f
+  WHERE f.id = _folder_id AND f.deleted_at IS NOT NULL AND can_view_folder_tree(auth.uid(), f.id);
+
+  IF _deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Folder not found';
+  END IF;
+
+  WITH RECURSIVE subtree AS (
+    SELECT _folder_id AS id
+    UNION
+    SELECT f.id FROM public.folders f JOIN subtree s ON f.parent_id = s.id
+    WHERE f.deleted_at = _deleted_at
+  )
+  SELECT array_agg(id) INTO _ids FROM subtree;
+
+  -- The parent may still be in the trash
+  UPDATE public.folders
+  SET parent_id = NULL
+  WHERE id = _folder_id AND is_trashed_folder(parent_id);
+
+  UPDATE public.folders SET deleted_at = NULL, deleted_by = NULL WHERE id = ANY(_ids);
+
+  UPDATE public.documents d
+  SET deleted_at = NULL,
+      deleted_by = NULL,
+      content_hash = CASE WHEN EXISTS (
+        SELECT 1 FROM public.documents o
+        WHERE o.content_hash = d.content_hash AND o.deleted_at IS NULL
+      ) THEN NULL ELSE d.content_hash END
+  WHERE d.folder_id = ANY(_ids) AND d.deleted_at = _deleted_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trash_document(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.trash_folder(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.restore_document(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.restore_folder(UUID) FROM anon;
+
+-- Trash content for admins: folders and documents trashed on their own (not
+-- along with a trashed parent), with the date they will be purged.
+-- document_count is the number of documents trashed with a folder.
+CREATE OR REPLACE FUNCTION public.get_trash()
+RETURNS TABLE (
+  item_type TEXT,
+  id UUID,
+  name TEXT,
+  file_type TEXT,
+  file_size BIGINT,
+  document_count BIGINT,
+  parent_name TEXT,
+  deleted_at TIMESTAMPTZ,
+  deleted_by_name TEXT,
+  purge_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE settings AS (
+    SELECT make_interval(days => trash_retention_days) AS retention FROM public.app_settings
+  ),
+  trashed_folders AS (
+    SELECT f.id, f.name, f.deleted_at, f.deleted_by, p.name AS parent_name
+    FROM public.folders f
+    LEFT JOIN public.folders p ON p.id = f.parent_id
+    WHERE f.deleted_at IS NOT NULL
+      AND p.deleted_at IS DISTINCT FROM f.deleted_at
+      AND can_view_folder_tree(auth.uid(), f.id)
+  ),
+  subtree AS (
+    SELECT t.id AS root_id, t.id, t.deleted_at FROM trashed_folders t
+    UNION ALL
+    SELECT s.root_id, f.id, s.deleted_at
+    FROM public.folders f
+    JOIN subtree s ON f.parent_id = s.id
+    WHERE f.deleted_at = s.deleted_at
+  ),
+  folder_counts AS (
+    SELECT s.root_id, count(d.id) AS document_count
+    FROM subtree s
+    JOIN public.documents d ON d.folder_id = s.id AND d.deleted_at = s.deleted_at
+    GROUP BY s.root_id
+  )
+  SELECT
+    'folder', t.id, t.name, NULL, NULL, coalesce(c.document_count, 0), t.parent_name,
+    t.deleted_at, coalesce(pr.full_name, pr.email), t.deleted_at + settings.retention
+  FROM trashed_folders t
+  CROSS JOIN settings
+  LEFT JOIN folder_counts c ON c.root_id = t.id
+  LEFT JOIN public.profiles pr ON pr.id = t.deleted_by
+  WHERE has_role_or_higher(auth.uid(), 'admin')
+  UNION ALL
+  SELECT
+    'document', d.id, d.name, d.file_type, d.file_size, NULL, f.name,
+    d.deleted_at, coalesce(pr.full_name, pr.email), d.deleted_at + settings.retention
+  FROM public.documents d
+  CROSS JOIN settings
+  LEFT JOIN public.folders f ON f.id = d.folder_id
+  LEFT JOIN public.profiles pr ON pr.id = d.deleted_by
+  WHERE has_role_or_higher(auth.uid(), 'admin')
+    AND d.deleted_at IS NOT NULL
+    AND f.deleted_at IS DISTINCT FROM d.deleted_at
+    AND can_view_document(auth.uid(), d.user_id, d.folder_id)
+  ORDER BY 8 DESC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_trash() FROM anon;
+
+-- Purge expired trash every night, with the same Vault secrets as the
+-- retry-failed-ingestions job
+SELECT cron.schedule(
+  'purge-trash',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"scheduled": true}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,259 @@
+-- Editable document metadata. Documents can be renamed after upload, and
+-- described with a free text, tags, a language and the date from which their
+-- content applies. The retrieval backends receive it to filter and display
+-- sources.
+ALTER TABLE public.documents
+ADD COLUMN description TEXT,
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN language TEXT,
+ADD COLUMN effective_date DATE,
+ADD CONSTRAINT documents_description_length CHECK (char_length(description) <= 2000),
+-- ISO 639-1 code
+ADD CONSTRAINT documents_language_code CHECK (language ~ '^[a-z]{2}$');
+
+CREATE INDEX idx_documents_tags ON public.documents USING gin (tags);
+
+-- Editors can rename and describe every document they can access, not only
+-- their own uploads. Tags are trimmed and deduplicated.
+CREATE OR REPLACE FUNCTION public.update_document_metadata(
+  _document_id UUID,
+  _name TEXT,
+  _description TEXT DEFAULT NULL,
+  _tags TEXT[] DEFAULT NULL,
+  _language TEXT DEFAULT NULL,
+  _effective_date DATE DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role_or_higher(auth.uid(), 'editor') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF coalesce(btrim(_name), '') = '' THEN
+    RAISE EXCEPTION 'Document name is required';
+  END IF;
+
+  UPDATE public.documents d
+  SET name = btrim(_name),
+      description = NULLIF(btrim(_description), ''),
+      tags = ARRAY(
+        SELECT DISTINCT btrim(t) FROM unnest(coalesce(_tags, '{}')) AS t
+        WHERE btrim(t) <> ''
+        ORDER BY 1
+      ),
+      language = NULLIF(_language, ''),
+      effective_date = _effective_date
+  WHERE d.id = _document_id
+    AND d.id IN (SELECT a.id FROM public.get_accessible_documents() a);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_document_metadata(UUID, TEXT, TEXT, TEXT[], TEXT, DATE) FROM anon;
+
+-- Inline rename from the document lists, leaving the other metadata as is
+CREATE OR REPLACE FUNCTION public.rename_document(_document_id UUID, _name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role_or_higher(auth.uid(), 'editor') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF coalesce(btrim(_name), '') = '' THEN
+    RAISE EXCEPTION 'Document name is required';
+  END IF;
+
+  UPDATE public.documents d
+  SET name = btrim(_name)
+  WHERE d.id = _document_id
+    AND d.id IN (SELECT a.id FROM public.get_accessible_documents() a);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rename_document(UUID, TEXT) FROM anon;
+
+-- Semantic search returns the metadata of each matched document and can be
+-- narrowed to tags (any of them), a language and an effective date range
+DROP FUNCTION public.match_document_chunks(extensions.vector, INTEGER, UUID[], DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(384),
+  match_count INTEGER DEFAULT 8,
+  filter_document_ids UUID[] DEFAULT NULL,
+  min_similarity DOUBLE PRECISION DEFAULT 0,
+  filter_tags TEXT[] DEFAULT NULL,
+  filter_language TEXT DEFAULT NULL,
+  effective_after DATE DEFAULT NULL,
+  effective_before DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION,
+  description TEXT,
+  tags TEXT[],
+  language TEXT,
+  effective_date DATE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    a.name AS document_name,
+    c.chunk_index,
+    c.page,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity,
+    d.description,
+    d.tags,
+    d.language,
+    d.effective_date
+  FROM public.document_chunks c
+  JOIN public.get_accessible_documents() a ON a.id = c.document_id
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.embedding IS NOT NULL
+  AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+  AND (filter_tags IS NULL OR d.tags && filter_tags)
+  AND (filter_language IS NULL OR d.language = filter_language)
+  AND (effective_after IS NULL OR d.effective_date >= effective_after)
+  AND (effective_before IS NULL OR d.effective_date <= effective_before)
+  AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT LEAST(GREATEST(match_count, 1), 50)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_document_chunks(extensions.vector, INTEGER, UUID[], DOUBLE PRECISION, TEXT[], TEXT, DATE, DATE) FROM anon;
+
+-- Search results carry the metadata, and the query text is also looked up in
+-- descriptions. The return type changes, so the function is recreated.
+DROP FUNCTION public.search_documents(TEXT, TEXT[], TEXT[], UUID[], UUID[], TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_documents(
+  search_query TEXT DEFAULT NULL,
+  filter_statuses TEXT[] DEFAULT NULL,
+  filter_file_types TEXT[] DEFAULT NULL,
+  filter_uploader_ids UUID[] DEFAULT NULL,
+  filter_folder_ids UUID[] DEFAULT NULL,
+  created_after TIMESTAMPTZ DEFAULT NULL,
+  created_before TIMESTAMPTZ DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  result_limit INTEGER DEFAULT 50,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  file_type TEXT,
+  file_size BIGINT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  folder_id UUID,
+  user_id UUID,
+  ingestion_progress SMALLINT,
+  page_count INTEGER,
+  chunk_count INTEGER,
+  error_message TEXT,
+  ingestion_attempts INTEGER,
+  next_retry_at TIMESTAMPTZ,
+  description TEXT,
+  tags TEXT[],
+  language TEXT,
+  effective_date DATE,
+  rank REAL,
+  headline TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT
+      NULLIF(trim(search_query), '') AS text,
+      CASE WHEN NULLIF(trim(search_query), '') IS NULL THEN NULL
+        ELSE websearch_to_tsquery('french', search_query)
+      END AS q
+  ),
+  chunk_hits AS (
+    SELECT
+      c.document_id,
+      max(ts_rank(c.search_vector, query.q)) AS rank,
+      (array_agg(c.content ORDER BY ts_rank(c.search_vector, query.q) DESC))[1] AS content
+    FROM public.document_chunks c, query
+    WHERE query.q IS NOT NULL AND c.search_vector @@ query.q
+    GROUP BY c.document_id
+  ),
+  matches AS (
+    SELECT
+      d.*,
+      CASE WHEN query.q IS NULL THEN 0
+        -- Name matches weigh more than a hit somewhere in the text
+        ELSE 2 * ts_rank(d.name_search, query.q) + coalesce(h.rank, 0)
+          + CASE WHEN strpos(lower(d.name), lower(query.text)) > 0 THEN 0.1 ELSE 0 END
+      END AS rank,
+      h.content AS hit_content,
+      query.q
+    FROM public.documents d
+    JOIN public.get_accessible_documents() a ON a.id = d.id
+    CROSS JOIN query
+    LEFT JOIN chunk_hits h ON h.document_id = d.id
+    WHERE (
+      query.q IS NULL
+      OR d.name_search @@ query.q
+      OR strpos(lower(d.name), lower(query.text)) > 0
+      OR strpos(lower(coalesce(d.description, '')), lower(query.text)) > 0
+      OR h.document_id IS NOT NULL
+    )
+    AND (filter_statuses IS NULL OR d.status = ANY (filter_statuses))
+    AND (filter_file_types IS NULL OR d.file_type = ANY (filter_file_types))
+    AND (filter_uploader_ids IS NULL OR d.user_id = ANY (filter_uploader_ids))
+    AND (filter_folder_ids IS NULL OR d.folder_id = ANY (filter_folder_ids))
+    AND (created_after IS NULL OR d.created_at >= created_after)
+    AND (created_before IS NULL OR d.created_at < created_before)
+  )
+  SELECT
+    m.id, m.name, m.file_type, m.file_size, m.status, m.created_at, m.folder_id, m.user_id,
+    m.ingestion_progress, m.page_count, m.chunk_count, m.error_message,
+    m.ingestion_attempts, m.next_retry_at,
+    m.description, m.tags, m.language, m.effective_date,
+    m.rank::REAL,
+    CASE WHEN m.hit_content IS NOT NULL
+      THEN ts_headline('french', m.hit_content, m.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12')
+    END,
+    count(*) OVER ()
+  FROM matches m
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN m.rank END DESC,
+    CASE WHEN sort_by = 'name' THEN lower(m.name) END ASC,
+    CASE WHEN sort_by = 'oldest' THEN m.created_at END ASC,
+    CASE WHEN sort_by = 'size' THEN m.file_size END DESC,
+    m.created_at DESC
+  LIMIT least(greatest(result_limit, 1), 200)
+  OFFSET greatest(result_offset, 0)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_documents(TEXT, TEXT[], TEXT[], UUID[], UUID[], TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, INTEGER) FROM anon;
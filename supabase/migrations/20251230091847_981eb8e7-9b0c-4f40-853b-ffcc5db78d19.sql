@@ -0,0 +1,332 @@
+-- Workspace tags. A document lives in a single folder but can carry several
+-- tags, e.g. one per team it concerns. They replace the free text
+-- documents.tags column.
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT tags_name_length CHECK (char_length(btrim(name)) BETWEEN 1 AND 50)
+);
+
+CREATE UNIQUE INDEX idx_tags_name ON public.tags (lower(name));
+
+CREATE TABLE public.document_tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, tag_id)
+);
+
+CREATE INDEX idx_document_tags_tag_id ON public.document_tags (tag_id);
+
+INSERT INTO public.tags (name)
+SELECT DISTINCT ON (lower(btrim(t))) btrim(t)
+FROM public.documents d, unnest(d.tags) AS t
+WHERE btrim(t) <> ''
+ORDER BY lower(btrim(t)), btrim(t);
+
+INSERT INTO public.document_tags (document_id, tag_id)
+SELECT DISTINCT d.id, tg.id
+FROM public.documents d
+CROSS JOIN unnest(d.tags) AS t
+JOIN public.tags tg ON lower(tg.name) = lower(btrim(t));
+
+DROP INDEX public.idx_documents_tags;
+ALTER TABLE public.documents DROP COLUMN tags;
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_tags ENABLE ROW LEVEL SECURITY;
+
+-- Tag names are not sensitive; every member can filter with any of them
+CREATE POLICY "Authenticated users can view tags"
+ON public.tags FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Editors can create tags"
+ON public.tags FOR INSERT
+TO authenticated
+WITH CHECK (has_role_or_higher(auth.uid(), 'editor') AND created_by = auth.uid());
+
+CREATE POLICY "Admins can rename tags"
+ON public.tags FOR UPDATE
+TO authenticated
+USING (has_role_or_higher(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete tags"
+ON public.tags FOR DELETE
+TO authenticated
+USING (has_role_or_higher(auth.uid(), 'admin'));
+
+-- Tagging follows document access, like renaming
+CREATE POLICY "Users can view tags of accessible documents"
+ON public.document_tags FOR SELECT
+USING (document_id IN (SELECT id FROM public.get_accessible_documents()));
+
+CREATE POLICY "Editors can tag accessible documents"
+ON public.document_tags FOR INSERT
+TO authenticated
+WITH CHECK (
+  has_role_or_higher(auth.uid(), 'editor')
+  AND created_by = auth.uid()
+  AND document_id IN (SELECT id FROM public.get_accessible_documents())
+);
+
+CREATE POLICY "Editors can untag accessible documents"
+ON public.document_tags FOR DELETE
+TO authenticated
+USING (
+  has_role_or_higher(auth.uid(), 'editor')
+  AND document_id IN (SELECT id FROM public.get_accessible_documents())
+);
+
+-- Document lists refresh when a teammate tags a document
+ALTER PUBLICATION supabase_realtime ADD TABLE public.document_tags;
+
+-- Chats can be scoped to every document carrying a tag
+ALTER TABLE public.conversations
+ADD COLUMN scope_tag_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- The metadata dialog still edits tags by name: unknown names become tags
+-- and the document's tags are replaced by the given ones
+CREATE OR REPLACE FUNCTION public.update_document_metadata(
+  _document_id UUID,
+  _name TEXT,
+  _description TEXT DEFAULT NULL,
+  _tags TEXT[] DEFAULT NULL,
+  _language TEXT DEFAULT NULL,
+  _effective_date DATE DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tag_ids UUID[];
+BEGIN
+  IF NOT has_role_or_higher(auth.uid(), 'editor') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF coalesce(btrim(_name), '') = '' THEN
+    RAISE EXCEPTION 'Document name is required';
+  END IF;
+
+  UPDATE public.documents d
+  SET name = btrim(_name),
+      description = NULLIF(btrim(_description), ''),
+      language = NULLIF(_language, ''),
+      effective_date = _effective_date
+  WHERE d.id = _document_id
+    AND d.id IN (SELECT a.id FROM public.get_accessible_documents() a);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  INSERT INTO public.tags (name, created_by)
+  SELECT DISTINCT ON (lower(btrim(t))) btrim(t), auth.uid()
+  FROM unnest(coalesce(_tags, '{}')) AS t
+  WHERE btrim(t) <> ''
+  ON CONFLICT ((lower(name))) DO NOTHING;
+
+  SELECT coalesce(array_agg(tg.id), '{}') INTO _tag_ids
+  FROM public.tags tg
+  WHERE lower(tg.name) IN (SELECT lower(btrim(t)) FROM unnest(coalesce(_tags, '{}')) AS t);
+
+  DELETE FROM public.document_tags
+  WHERE document_id = _document_id AND tag_id <> ALL (_tag_ids);
+
+  INSERT INTO public.document_tags (document_id, tag_id, created_by)
+  SELECT _document_id, unnest(_tag_ids), auth.uid()
+  ON CONFLICT (document_id, tag_id) DO NOTHING;
+END;
+$$;
+
+-- Same signature: tags are now matched and returned by name through
+-- document_tags
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(384),
+  match_count INTEGER DEFAULT 8,
+  filter_document_ids UUID[] DEFAULT NULL,
+  min_similarity DOUBLE PRECISION DEFAULT 0,
+  filter_tags TEXT[] DEFAULT NULL,
+  filter_language TEXT DEFAULT NULL,
+  effective_after DATE DEFAULT NULL,
+  effective_before DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION,
+  description TEXT,
+  tags TEXT[],
+  language TEXT,
+  effective_date DATE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    a.name AS document_name,
+    c.chunk_index,
+    c.page,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity,
+    d.description,
+    ARRAY(
+      SELECT tg.name FROM public.document_tags dt
+      JOIN public.tags tg ON tg.id = dt.tag_id
+      WHERE dt.document_id = c.document_id
+      ORDER BY lower(tg.name)
+    ),
+    d.language,
+    d.effective_date
+  FROM public.document_chunks c
+  JOIN public.get_accessible_documents() a ON a.id = c.document_id
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.embedding IS NOT NULL
+  AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+  AND (filter_tags IS NULL OR EXISTS (
+    SELECT 1 FROM public.document_tags dt
+    JOIN public.tags tg ON tg.id = dt.tag_id
+    WHERE dt.document_id = c.document_id
+    AND lower(tg.name) IN (SELECT lower(t) FROM unnest(filter_tags) AS t)
+  ))
+  AND (filter_language IS NULL OR d.language = filter_language)
+  AND (effective_after IS NULL OR d.effective_date >= effective_after)
+  AND (effective_before IS NULL OR d.effective_date <= effective_before)
+  AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT LEAST(GREATEST(match_count, 1), 50)
+$$;
+
+-- Search can be narrowed to tags (any of them) and returns the tag ids of
+-- each result, which the list resolves against the tags table
+DROP FUNCTION public.search_documents(TEXT, TEXT[], TEXT[], UUID[], UUID[], TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_documents(
+  search_query TEXT DEFAULT NULL,
+  filter_statuses TEXT[] DEFAULT NULL,
+  filter_file_types TEXT[] DEFAULT NULL,
+  filter_uploader_ids UUID[] DEFAULT NULL,
+  filter_folder_ids UUID[] DEFAULT NULL,
+  filter_tag_ids UUID[] DEFAULT NULL,
+  created_after TIMESTAMPTZ DEFAULT NULL,
+  created_before TIMESTAMPTZ DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  result_limit INTEGER DEFAULT 50,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  file_type TEXT,
+  file_size BIGINT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  folder_id UUID,
+  user_id UUID,
+  ingestion_progress SMALLINT,
+  page_count INTEGER,
+  chunk_count INTEGER,
+  error_message TEXT,
+  ingestion_attempts INTEGER,
+  next_retry_at TIMESTAMPTZ,
+  description TEXT,
+  tag_ids UUID[],
+  language TEXT,
+  effective_date DATE,
+  rank REAL,
+  headline TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT
+      NULLIF(trim(search_query), '') AS text,
+      CASE WHEN NULLIF(trim(search_query), '') IS NULL THEN NULL
+        ELSE websearch_to_tsquery('french', search_query)
+      END AS q
+  ),
+  chunk_hits AS (
+    SELECT
+      c.document_id,
+      max(ts_rank(c.search_vector, query.q)) AS rank,
+      (array_agg(c.content ORDER BY ts_rank(c.search_vector, query.q) DESC))[1] AS content
+    FROM public.document_chunks c, query
+    WHERE query.q IS NOT NULL AND c.search_vector @@ query.q
+    GROUP BY c.document_id
+  ),
+  matches AS (
+    SELECT
+      d.*,
+      CASE WHEN query.q IS NULL THEN 0
+        -- Name matches weigh more than a hit somewhere in the text
+        ELSE 2 * ts_rank(d.name_search, query.q) + coalesce(h.rank, 0)
+          + CASE WHEN strpos(lower(d.name), lower(query.text)) > 0 THEN 0.1 ELSE 0 END
+      END AS rank,
+      h.content AS hit_content,
+      query.q
+    FROM public.documents d
+    JOIN public.get_accessible_documents() a ON a.id = d.id
+    CROSS JOIN query
+    LEFT JOIN chunk_hits h ON h.document_id = d.id
+    WHERE (
+      query.q IS NULL
+      OR d.name_search @@ query.q
+      OR strpos(lower(d.name), lower(query.text)) > 0
+      OR strpos(lower(coalesce(d.description, '')), lower(query.text)) > 0
+      OR h.document_id IS NOT NULL
+    )
+    AND (filter_statuses IS NULL OR d.status = ANY (filter_statuses))
+    AND (filter_file_types IS NULL OR d.file_type = ANY (filter_file_types))
+    AND (filter_uploader_ids IS NULL OR d.user_id = ANY (filter_uploader_ids))
+    AND (filter_folder_ids IS NULL OR d.folder_id = ANY (filter_folder_ids))
+    AND (filter_tag_ids IS NULL OR EXISTS (
+      SELECT 1 FROM public.document_tags dt
+      WHERE dt.document_id = d.id AND dt.tag_id = ANY (filter_tag_ids)
+    ))
+    AND (created_after IS NULL OR d.created_at >= created_after)
+    AND (created_before IS NULL OR d.created_at < created_before)
+  )
+  SELECT
+    m.id, m.name, m.file_type, m.file_size, m.status, m.created_at, m.folder_id, m.user_id,
+    m.ingestion_progress, m.page_count, m.chunk_count, m.error_message,
+    m.ingestion_attempts, m.next_retry_at,
+    m.description,
+    ARRAY(SELECT dt.tag_id FROM public.document_tags dt WHERE dt.document_id = m.id),
+    m.language, m.effective_date,
+    m.rank::REAL,
+    CASE WHEN m.hit_content IS NOT NULL
+      THEN ts_headline('french', m.hit_content, m.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12')
+    END,
+    count(*) OVER ()
+  FROM matches m
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN m.rank END DESC,
+    CASE WHEN sort_by = 'name' THEN lower(m.name) END ASC,
+    CASE WHEN sort_by = 'oldest' THEN m.created_at END ASC,
+    CASE WHEN sort_by = 'size' THEN m.file_size END DESC,
+    m.created_at DESC
+  LIMIT least(greatest(result_limit, 1), 200)
+  OFFSET greatest(result_offset, 0)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_documents(TEXT, TEXT[], TEXT[], UUID[], UUID[], UUID[], TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, INTEGER) FROM anon;
@@ -0,0 +1,37 @@
+-- Messages form a tree: regenerating an answer or editing a question adds a
+-- sibling under the same parent, and the conversation shows one branch at a
+-- time, from a root to a leaf.
+ALTER TABLE public.chat_messages
+ADD COLUMN parent_id UUID REFERENCES public.chat_messages(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_chat_messages_parent_id ON public.chat_messages (parent_id);
+
+-- Existing conversations become a single branch
+UPDATE public.chat_messages m
+SET parent_id = p.previous_id
+FROM (
+  SELECT id, lag(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM public.chat_messages
+) p
+WHERE p.id = m.id AND p.previous_id IS NOT NULL;
+
+-- A message can only follow a message of the same conversation
+CREATE OR REPLACE FUNCTION public.check_chat_message_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.chat_messages
+    WHERE id = NEW.parent_id AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Parent message must belong to the same conversation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_chat_message_parent
+BEFORE INSERT ON public.chat_messages
+FOR EACH ROW EXECUTE FUNCTION public.check_chat_message_parent();
@@ -0,0 +1,167 @@
+-- Feedback on chatbot answers. Negative feedback is reviewed by admins to
+-- find what the document corpus is missing.
+CREATE TABLE public.message_feedback (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating TEXT NOT NULL CHECK (rating IN ('up', 'down')),
+  reason TEXT CHECK (reason IN ('incorrect', 'incomplete', 'missing_information', 'wrong_sources', 'other')),
+  -- The answer the user expected
+  correction TEXT CHECK (char_length(correction) <= 4000),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id)
+);
+
+CREATE INDEX idx_message_feedback_negative ON public.message_feedback (created_at DESC)
+WHERE rating = 'down';
+
+CREATE TRIGGER update_message_feedback_updated_at
+BEFORE UPDATE ON public.message_feedback
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.message_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Users rate the answers of their own conversations
+CREATE POLICY "Users can view their own feedback"
+ON public.message_feedback FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can give feedback on their own messages"
+ON public.message_feedback FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND reviewed_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.chat_messages m
+    WHERE m.id = message_feedback.message_id AND m.user_id = auth.uid() AND m.role = 'assistant'
+  )
+);
+
+-- Changing a feedback puts it back in the review queue
+CREATE POLICY "Users can update their own feedback"
+ON public.message_feedback FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND reviewed_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.chat_messages m
+    WHERE m.id = message_feedback.message_id AND m.user_id = auth.uid() AND m.role = 'assistant'
+  )
+);
+
+CREATE POLICY "Users can delete their own feedback"
+ON public.message_feedback FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Negative feedback with the question, the answer and its sources. Admins
+-- cannot read other users' conversations, hence SECURITY DEFINER.
+CREATE OR REPLACE FUNCTION public.get_negative_feedback()
+RETURNS TABLE (
+  id UUID,
+  message_id UUID,
+  reason TEXT,
+  correction TEXT,
+  created_at TIMESTAMPTZ,
+  user_name TEXT,
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by_name TEXT,
+  conversation_id UUID,
+  conversation_title TEXT,
+  question TEXT,
+  answer TEXT,
+  citations JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    f.id, f.message_id, f.reason, f.correction, f.created_at,
+    coalesce(author.full_name, author.email),
+    f.reviewed_at,
+    coalesce(reviewer.full_name, reviewer.email),
+    c.id, c.title, q.content, a.content,
+    coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'document_id', mc.document_id,
+        'document_name', mc.document_name,
+        'chunk_index', mc.chunk_index,
+        'page', mc.page,
+        'snippet', mc.snippet,
+        'score', mc.score
+      ) ORDER BY mc.position)
+      FROM public.message_citations mc
+      WHERE mc.message_id = a.id
+    ), '[]'::jsonb)
+  FROM public.message_feedback f
+  JOIN public.chat_messages a ON a.id = f.message_id
+  JOIN public.conversations c ON c.id = a.conversation_id
+  LEFT JOIN public.chat_messages q ON q.id = a.parent_id
+  LEFT JOIN public.profiles author ON author.id = f.user_id
+  LEFT JOIN public.profiles reviewer ON reviewer.id = f.reviewed_by
+  WHERE has_role_or_higher(auth.uid(), 'admin')
+    AND f.rating = 'down'
+  ORDER BY f.created_at DESC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_negative_feedback() FROM anon;
+
+-- Branch of the conversation leading to a rated answer, for the review page
+CREATE OR REPLACE FUNCTION public.get_feedback_conversation(_feedback_id UUID)
+RETURNS TABLE (
+  id UUID,
+  role TEXT,
+  content TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE branch AS (
+    SELECT m.id, m.parent_id, m.role, m.content, m.created_at
+    FROM public.message_feedback f
+    JOIN public.chat_messages m ON m.id = f.message_id
+    WHERE f.id = _feedback_id
+      AND has_role_or_higher(auth.uid(), 'admin')
+    UNION ALL
+    SELECT m.id, m.parent_id, m.role, m.content, m.created_at
+    FROM public.chat_messages m
+    JOIN branch b ON m.id = b.parent_id
+  )
+  SELECT b.id, b.role, b.content, b.created_at
+  FROM branch b
+  ORDER BY b.created_at
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_feedback_conversation(UUID) FROM anon;
+
+CREATE OR REPLACE FUNCTION public.set_feedback_reviewed(_feedback_id UUID, _reviewed BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role_or_higher(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  UPDATE public.message_feedback
+  SET reviewed_at = CASE WHEN _reviewed THEN now() END,
+      reviewed_by = CASE WHEN _reviewed THEN auth.uid() END
+  WHERE id = _feedback_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feedback not found';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_feedback_reviewed(UUID, BOOLEAN) FROM anon;
@@ -0,0 +1,51 @@
+-- Personal folders to organize conversations
+CREATE TABLE public.conversation_folders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT conversation_folders_name_length CHECK (char_length(btrim(name)) BETWEEN 1 AND 100)
+);
+
+CREATE INDEX idx_conversation_folders_user_id ON public.conversation_folders (user_id);
+
+ALTER TABLE public.conversation_folders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own conversation folders" ON public.conversation_folders FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own conversation folders" ON public.conversation_folders FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own conversation folders" ON public.conversation_folders FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own conversation folders" ON public.conversation_folders FOR DELETE USING (auth.uid() = user_id);
+
+-- Deleting a folder puts its conversations back in the main list
+ALTER TABLE public.conversations
+ADD COLUMN folder_id UUID REFERENCES public.conversation_folders(id) ON DELETE SET NULL,
+ADD COLUMN pinned_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_conversations_folder_id ON public.conversations (folder_id);
+
+-- A conversation can only be filed in a folder of its owner
+CREATE OR REPLACE FUNCTION public.check_conversation_folder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.folder_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.conversation_folders
+    WHERE id = NEW.folder_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Folder not found';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_conversation_folder
+BEFORE INSERT OR UPDATE OF folder_id ON public.conversations
+FOR EACH ROW EXECUTE FUNCTION public.check_conversation_folder();
+
+-- updated_at is the last activity, used to sort and group conversations by
+-- date. The chat sets it after each answer; renaming, pinning or filing a
+-- conversation must not move it to the top.
+DROP TRIGGER update_conversations_updated_at ON public.conversations;
@@ -0,0 +1,9 @@
+-- Titles are generated after the first exchange; a title renamed by the user
+-- is locked and never replaced
+ALTER TABLE public.conversations
+ADD COLUMN title_locked BOOLEAN NOT NULL DEFAULT false;
+
+-- Broadcast conversation changes so generated titles reach the sidebar
+ALTER TABLE public.conversations REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
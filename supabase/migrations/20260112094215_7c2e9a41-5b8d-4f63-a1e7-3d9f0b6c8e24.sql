@@ -0,0 +1,4 @@
+-- Citations are stored by the n8n-chat function once it has checked them
+-- against the caller's access. Clients can no longer attach sources to their
+-- own messages.
+DROP POLICY "Users can create citations on their own messages" ON public.message_citations;
@@ -0,0 +1,99 @@
+-- Duplicate detection must not tell whether a document the caller cannot see
+-- has the same content. Only accessible documents are reported, and a copy of
+-- an inaccessible one is stored without its hash instead of hitting the
+-- unique index.
+CREATE OR REPLACE FUNCTION public.find_documents_by_hash(hashes TEXT[])
+RETURNS TABLE (content_hash TEXT, id UUID, name TEXT, folder_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.content_hash, d.id, d.name, d.folder_id
+  FROM public.documents d
+  JOIN public.get_accessible_documents() a ON a.id = d.id
+  WHERE d.content_hash = ANY(hashes)
+$$;
+
+-- Whether the content is already stored in a document the user cannot view
+CREATE OR REPLACE FUNCTION public.is_hidden_duplicate(_user_id UUID, _content_hash TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.content_hash = _content_hash
+      AND d.deleted_at IS NULL
+      AND NOT can_view_document(_user_id, d.user_id, d.folder_id)
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_hidden_duplicate(UUID, TEXT) FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.drop_hidden_duplicate_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content_hash IS NOT NULL AND is_hidden_duplicate(NEW.user_id, NEW.content_hash) THEN
+    NEW.content_hash := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER drop_hidden_duplicate_hash
+BEFORE INSERT ON public.documents
+FOR EACH ROW EXECUTE FUNCTION public.drop_hidden_duplicate_hash();
+
+-- Same rule for a new version, checked for the user who uploads it
+CREATE OR REPLACE FUNCTION public.add_document_version(
+  _document_id UUID,
+  _file_name TEXT,
+  _file_path TEXT,
+  _file_type TEXT,
+  _file_size BIGINT,
+  _content_hash TEXT,
+  _uploaded_by UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version INTEGER;
+BEGIN
+  IF _content_hash IS NOT NULL AND is_hidden_duplicate(_uploaded_by, _content_hash) THEN
+    _content_hash := NULL;
+  END IF;
+
+  UPDATE public.documents
+  SET current_version = current_version + 1,
+      file_path = _file_path,
+      file_type = _file_type,
+      file_size = _file_size,
+      content_hash = _content_hash,
+      status = 'pending',
+      page_count = NULL,
+      chunk_count = NULL
+  WHERE id = _document_id
+  RETURNING current_version INTO _version;
+
+  IF _version IS NULL THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  INSERT INTO public.document_versions
+    (document_id, version_number, file_name, file_path, file_type, file_size, content_hash, uploaded_by)
+  VALUES
+    (_document_id, _version, _file_name, _file_path, _file_type, _file_size, _content_hash, _uploaded_by);
+
+  RETURN _version;
+END;
+$$;
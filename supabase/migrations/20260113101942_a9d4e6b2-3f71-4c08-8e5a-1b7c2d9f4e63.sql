@@ -0,0 +1,22 @@
+-- Documents of a folder and of all its sub-folders that the caller can
+-- access, for re-ingesting a whole folder
+CREATE OR REPLACE FUNCTION public.get_folder_tree_document_ids(_folder_id UUID)
+RETURNS TABLE (id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT f.id FROM public.folders f
+    WHERE f.id = _folder_id AND f.deleted_at IS NULL AND can_view_folder_tree(auth.uid(), f.id)
+    UNION
+    SELECT f.id FROM public.folders f JOIN subtree s ON f.parent_id = s.id
+    WHERE f.deleted_at IS NULL
+  )
+  SELECT a.id
+  FROM public.get_accessible_documents() a
+  WHERE a.folder_id IN (SELECT s.id FROM subtree s)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_folder_tree_document_ids(UUID) FROM anon;
@@ -0,0 +1,30 @@
+-- Rows in the trash are hidden by the SELECT policies, so Realtime never
+-- delivers the UPDATE that trashes or restores them. Each trash or restore
+-- statement is broadcast on the public 'trash' topic instead. The message
+-- only names the table, listings refetch what the client can see.
+CREATE OR REPLACE FUNCTION public.broadcast_trash_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM old_rows o JOIN new_rows n ON n.id = o.id
+    WHERE n.deleted_at IS DISTINCT FROM o.deleted_at
+  ) THEN
+    PERFORM realtime.send(jsonb_build_object('table', TG_TABLE_NAME), 'change', 'trash', false);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER broadcast_document_trash_change
+AFTER UPDATE ON public.documents
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.broadcast_trash_change();
+
+CREATE TRIGGER broadcast_folder_trash_change
+AFTER UPDATE ON public.folders
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.broadcast_trash_change();
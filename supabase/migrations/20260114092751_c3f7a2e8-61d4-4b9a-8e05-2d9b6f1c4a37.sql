@@ -0,0 +1,115 @@
+-- Full-text hits are only ranked over chunks of accessible documents, instead
+-- of every chunk in the workspace before the access join
+CREATE OR REPLACE FUNCTION public.search_documents(
+  search_query TEXT DEFAULT NULL,
+  filter_statuses TEXT[] DEFAULT NULL,
+  filter_file_types TEXT[] DEFAULT NULL,
+  filter_uploader_ids UUID[] DEFAULT NULL,
+  filter_folder_ids UUID[] DEFAULT NULL,
+  filter_tag_ids UUID[] DEFAULT NULL,
+  created_after TIMESTAMPTZ DEFAULT NULL,
+  created_before TIMESTAMPTZ DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  result_limit INTEGER DEFAULT 50,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  file_type TEXT,
+  file_size BIGINT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  folder_id UUID,
+  user_id UUID,
+  ingestion_progress SMALLINT,
+  page_count INTEGER,
+  chunk_count INTEGER,
+  error_message TEXT,
+  ingestion_attempts INTEGER,
+  next_retry_at TIMESTAMPTZ,
+  description TEXT,
+  tag_ids UUID[],
+  language TEXT,
+  effective_date DATE,
+  rank REAL,
+  headline TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT
+      NULLIF(trim(search_query), '') AS text,
+      CASE WHEN NULLIF(trim(search_query), '') IS NULL THEN NULL
+        ELSE websearch_to_tsquery('french', search_query)
+      END AS q
+  ),
+  chunk_hits AS (
+    SELECT
+      c.document_id,
+      max(ts_rank(c.search_vector, query.q)) AS rank,
+      (array_agg(c.content ORDER BY ts_rank(c.search_vector, query.q) DESC))[1] AS content
+    FROM public.document_chunks c
+    JOIN public.get_accessible_documents() a ON a.id = c.document_id
+    CROSS JOIN query
+    WHERE query.q IS NOT NULL AND c.search_vector @@ query.q
+    GROUP BY c.document_id
+  ),
+  matches AS (
+    SELECT
+      d.*,
+      CASE WHEN query.q IS NULL THEN 0
+        -- Name matches weigh more than a hit somewhere in the text
+        ELSE 2 * ts_rank(d.name_search, query.q) + coalesce(h.rank, 0)
+          + CASE WHEN strpos(lower(d.name), lower(query.text)) > 0 THEN 0.1 ELSE 0 END
+      END AS rank,
+      h.content AS hit_content,
+      query.q
+    FROM public.documents d
+    JOIN public.get_accessible_documents() a ON a.id = d.id
+    CROSS JOIN query
+    LEFT JOIN chunk_hits h ON h.document_id = d.id
+    WHERE (
+      query.q IS NULL
+      OR d.name_search @@ query.q
+      OR strpos(lower(d.name), lower(query.text)) > 0
+      OR strpos(lower(coalesce(d.description, '')), lower(query.text)) > 0
+      OR h.document_id IS NOT NULL
+    )
+    AND (filter_statuses IS NULL OR d.status = ANY (filter_statuses))
+    AND (filter_file_types IS NULL OR d.file_type = ANY (filter_file_types))
+    AND (filter_uploader_ids IS NULL OR d.user_id = ANY (filter_uploader_ids))
+    AND (filter_folder_ids IS NULL OR d.folder_id = ANY (filter_folder_ids))
+    AND (filter_tag_ids IS NULL OR EXISTS (
+      SELECT 1 FROM public.document_tags dt
+      WHERE dt.document_id = d.id AND dt.tag_id = ANY (filter_tag_ids)
+    ))
+    AND (created_after IS NULL OR d.created_at >= created_after)
+    AND (created_before IS NULL OR d.created_at < created_before)
+  )
+  SELECT
+    m.id, m.name, m.file_type, m.file_size, m.status, m.created_at, m.folder_id, m.user_id,
+    m.ingestion_progress, m.page_count, m.chunk_count, m.error_message,
+    m.ingestion_attempts, m.next_retry_at,
+    m.description,
+    ARRAY(SELECT dt.tag_id FROM public.document_tags dt WHERE dt.document_id = m.id),
+    m.language, m.effective_date,
+    m.rank::REAL,
+    CASE WHEN m.hit_content IS NOT NULL
+      THEN ts_headline('french', m.hit_content, m.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12')
+    END,
+    count(*) OVER ()
+  FROM matches m
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN m.rank END DESC,
+    CASE WHEN sort_by = 'name' THEN lower(m.name) END ASC,
+    CASE WHEN sort_by = 'oldest' THEN m.created_at END ASC,
+    CASE WHEN sort_by = 'size' THEN m.file_size END DESC,
+    m.created_at DESC
+  LIMIT least(greatest(result_limit, 1), 200)
+  OFFSET greatest(result_offset, 0)
+$$;
@@ -0,0 +1,8 @@
+-- Text of an earlier version, extracted the first time a chat is scoped to it
+-- and reused for every following message. Written by the n8n-chat function.
+ALTER TABLE public.document_versions
+ADD COLUMN extracted_text TEXT;
+
+-- Earlier versions are sent inline to the workflow, at most three of them
+ALTER TABLE public.conversations
+ADD CONSTRAINT conversations_scope_version_ids_count CHECK (cardinality(scope_version_ids) <= 3);
@@ -0,0 +1,12 @@
+-- A title is generated once, after the first exchange. Regenerating or
+-- editing the first question later keeps it.
+ALTER TABLE public.conversations
+ADD COLUMN title_generated BOOLEAN NOT NULL DEFAULT false;
+
+-- Conversations that already have an answer already have their title
+UPDATE public.conversations c
+SET title_generated = true
+WHERE EXISTS (
+  SELECT 1 FROM public.chat_messages m
+  WHERE m.conversation_id = c.id AND m.role = 'assistant'
+);
@@ -0,0 +1,5 @@
+-- Identifies the current ingestion run. It is sent to the ingestion workflow,
+-- which echoes it in its callbacks, so a late callback of an earlier run
+-- cannot overwrite the status of the current one.
+ALTER TABLE public.documents
+ADD COLUMN ingestion_run_id UUID;
@@ -0,0 +1,50 @@
+-- A new version starts from a clean ingestion state: the progress, error and
+-- scheduled retry of the previous run no longer apply
+CREATE OR REPLACE FUNCTION public.add_document_version(
+  _document_id UUID,
+  _file_name TEXT,
+  _file_path TEXT,
+  _file_type TEXT,
+  _file_size BIGINT,
+  _content_hash TEXT,
+  _uploaded_by UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version INTEGER;
+BEGIN
+  IF _content_hash IS NOT NULL AND is_hidden_duplicate(_uploaded_by, _content_hash) THEN
+    _content_hash := NULL;
+  END IF;
+
+  UPDATE public.documents
+  SET current_version = current_version + 1,
+      file_path = _file_path,
+      file_type = _file_type,
+      file_size = _file_size,
+      content_hash = _content_hash,
+      status = 'pending',
+      ingestion_progress = NULL,
+      error_message = NULL,
+      next_retry_at = NULL,
+      page_count = NULL,
+      chunk_count = NULL
+  WHERE id = _document_id
+  RETURNING current_version INTO _version;
+
+  IF _version IS NULL THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  INSERT INTO public.document_versions
+    (document_id, version_number, file_name, file_path, file_type, file_size, content_hash, uploaded_by)
+  VALUES
+    (_document_id, _version, _file_name, _file_path, _file_type, _file_size, _content_hash, _uploaded_by);
+
+  RETURN _version;
+END;
+$$;
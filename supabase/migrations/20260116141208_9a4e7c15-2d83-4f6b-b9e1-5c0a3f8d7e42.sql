@@ -0,0 +1,108 @@
+-- Admins review feedback on answers drawn from documents they may not be
+-- allowed to see, e.g. in a private folder of another user. Citations of
+-- such documents are left out, and an answer citing any of them is redacted
+-- like the sources it was drawn from.
+
+-- Whether the user can view every document an answer cites. A citation whose
+-- document was deleted cannot be checked and counts as hidden.
+CREATE OR REPLACE FUNCTION public.can_view_message_sources(_user_id UUID, _message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.message_citations mc
+    LEFT JOIN public.documents d ON d.id = mc.document_id
+    WHERE mc.message_id = _message_id
+      AND (d.id IS NULL OR NOT can_view_document(_user_id, d.user_id, d.folder_id))
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_message_sources(UUID, UUID) FROM anon;
+
+CREATE OR REPLACE FUNCTION public.get_negative_feedback()
+RETURNS TABLE (
+  id UUID,
+  message_id UUID,
+  reason TEXT,
+  correction TEXT,
+  created_at TIMESTAMPTZ,
+  user_name TEXT,
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by_name TEXT,
+  conversation_id UUID,
+  conversation_title TEXT,
+  question TEXT,
+  answer TEXT,
+  citations JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    f.id, f.message_id, f.reason, f.correction, f.created_at,
+    coalesce(author.full_name, author.email),
+    f.reviewed_at,
+    coalesce(reviewer.full_name, reviewer.email),
+    c.id, c.title, q.content,
+    CASE WHEN can_view_message_sources(auth.uid(), a.id) THEN a.content END,
+    coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'document_id', mc.document_id,
+        'document_name', mc.document_name,
+        'chunk_index', mc.chunk_index,
+        'page', mc.page,
+        'snippet', mc.snippet,
+        'score', mc.score
+      ) ORDER BY mc.position)
+      FROM public.message_citations mc
+      JOIN public.documents d ON d.id = mc.document_id
+      WHERE mc.message_id = a.id
+        AND can_view_document(auth.uid(), d.user_id, d.folder_id)
+    ), '[]'::jsonb)
+  FROM public.message_feedback f
+  JOIN public.chat_messages a ON a.id = f.message_id
+  JOIN public.conversations c ON c.id = a.conversation_id
+  LEFT JOIN public.chat_messages q ON q.id = a.parent_id
+  LEFT JOIN public.profiles author ON author.id = f.user_id
+  LEFT JOIN public.profiles reviewer ON reviewer.id = f.reviewed_by
+  WHERE has_role_or_higher(auth.uid(), 'admin')
+    AND f.rating = 'down'
+  ORDER BY f.created_at DESC
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_feedback_conversation(_feedback_id UUID)
+RETURNS TABLE (
+  id UUID,
+  role TEXT,
+  content TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE branch AS (
+    SELECT m.id, m.parent_id, m.role, m.content, m.created_at
+    FROM public.message_feedback f
+    JOIN public.chat_messages m ON m.id = f.message_id
+    WHERE f.id = _feedback_id
+      AND has_role_or_higher(auth.uid(), 'admin')
+    UNION ALL
+    SELECT m.id, m.parent_id, m.role, m.content, m.created_at
+    FROM public.chat_messages m
+    JOIN branch b ON m.id = b.parent_id
+  )
+  SELECT
+    b.id, b.role,
+    CASE WHEN b.role <> 'assistant' OR can_view_message_sources(auth.uid(), b.id) THEN b.content END,
+    b.created_at
+  FROM branch b
+  ORDER BY b.created_at
+$$;
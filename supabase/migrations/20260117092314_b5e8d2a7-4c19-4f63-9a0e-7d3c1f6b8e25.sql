@@ -0,0 +1,26 @@
+-- Deleting a folder used to move its content up to the parent folder, where
+-- it escaped the access rules of the deleted folder. Folders are now trashed
+-- rather than deleted, and a folder can only be deleted once it is empty: the
+-- purge removes its documents and sub-folders first.
+DROP TRIGGER IF EXISTS reparent_folder_content ON public.folders;
+DROP FUNCTION IF EXISTS public.reparent_folder_content();
+
+CREATE OR REPLACE FUNCTION public.prevent_non_empty_folder_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.folders WHERE parent_id = OLD.id)
+    OR EXISTS (SELECT 1 FROM public.documents WHERE folder_id = OLD.id) THEN
+    RAISE EXCEPTION 'A folder can only be deleted once it is empty';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_non_empty_folder_delete
+BEFORE DELETE ON public.folders
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_non_empty_folder_delete();
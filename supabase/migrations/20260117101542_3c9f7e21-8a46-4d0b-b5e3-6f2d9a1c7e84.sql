@@ -0,0 +1,15 @@
+-- Owners could trash or restore their own documents and folders by updating
+-- deleted_at themselves, without the admin role that trash_document,
+-- trash_folder, restore_document and restore_folder require. Owners can now
+-- only update rows outside the trash, and cannot stamp them.
+DROP POLICY IF EXISTS "Users can update their own documents" ON public.documents;
+CREATE POLICY "Users can update their own documents"
+ON public.documents FOR UPDATE
+USING (auth.uid() = user_id AND deleted_at IS NULL)
+WITH CHECK (auth.uid() = user_id AND deleted_at IS NULL AND deleted_by IS NULL);
+
+DROP POLICY IF EXISTS "Users can update their own folders" ON public.folders;
+CREATE POLICY "Users can update their own folders"
+ON public.folders FOR UPDATE
+USING (auth.uid() = user_id AND deleted_at IS NULL)
+WITH CHECK (auth.uid() = user_id AND deleted_at IS NULL AND deleted_by IS NULL);
@@ -0,0 +1,28 @@
+-- Tags live in tags/document_tags since the tags migration. A database where
+-- the free text documents.tags column is still there gets its remaining tags
+-- moved over, and loses the column; elsewhere this does nothing.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'documents' AND column_name = 'tags'
+  ) THEN
+    INSERT INTO public.tags (name)
+    SELECT DISTINCT ON (lower(btrim(t))) btrim(t)
+    FROM public.documents d, unnest(d.tags) AS t
+    WHERE btrim(t) <> ''
+    ORDER BY lower(btrim(t)), btrim(t)
+    ON CONFLICT ((lower(name))) DO NOTHING;
+
+    INSERT INTO public.document_tags (document_id, tag_id)
+    SELECT DISTINCT d.id, tg.id
+    FROM public.documents d
+    CROSS JOIN unnest(d.tags) AS t
+    JOIN public.tags tg ON lower(tg.name) = lower(btrim(t))
+    ON CONFLICT (document_id, tag_id) DO NOTHING;
+
+    DROP INDEX IF EXISTS public.idx_documents_tags;
+    ALTER TABLE public.documents DROP COLUMN tags;
+  END IF;
+END;
+$$;